@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "subject" TEXT;
+ALTER TABLE "messages" ADD COLUMN "body_text" TEXT;
+ALTER TABLE "messages" ADD COLUMN "body_html" TEXT;
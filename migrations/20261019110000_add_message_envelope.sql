@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "sender" TEXT;
+ALTER TABLE "messages" ADD COLUMN "envelope" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "templates" ADD COLUMN "provider_order" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "provider_health" (
+    "provider" TEXT NOT NULL PRIMARY KEY,
+    "state" TEXT NOT NULL DEFAULT 'CLOSED',
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+    "window_started_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "window_requests" INTEGER NOT NULL DEFAULT 0,
+    "window_failures" INTEGER NOT NULL DEFAULT 0,
+    "opened_at" DATETIME,
+    "last_success_at" DATETIME,
+    "last_failure_at" DATETIME,
+    "last_error" TEXT,
+    "updated_at" DATETIME NOT NULL
+);
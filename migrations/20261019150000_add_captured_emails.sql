@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "captured_emails" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "message_id" TEXT NOT NULL,
+    "sender" TEXT NOT NULL,
+    "recipients" TEXT NOT NULL,
+    "envelope" TEXT,
+    "subject" TEXT NOT NULL,
+    "body_text" TEXT NOT NULL,
+    "body_html" TEXT,
+    "attachments" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "captured_emails_message_id_key" ON "captured_emails"("message_id");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "delivery_events" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "message_id" INTEGER,
+    "provider" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "external_id" TEXT NOT NULL,
+    "recipient" TEXT,
+    "permanent" BOOLEAN,
+    "detail" TEXT,
+    "occurred_at" DATETIME NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "delivery_events_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "delivery_events_message_id_idx" ON "delivery_events"("message_id");
+
+-- CreateIndex
+CREATE INDEX "messages_external_id_idx" ON "messages"("external_id");
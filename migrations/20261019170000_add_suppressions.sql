@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "suppressions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email_address" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "detail" TEXT,
+    "source" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suppressions_email_address_key" ON "suppressions"("email_address");
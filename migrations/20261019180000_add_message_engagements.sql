@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "tracked" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "message_engagements" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "message_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "url" TEXT,
+    "user_agent" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_engagements_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "message_engagements_message_id_idx" ON "message_engagements"("message_id");
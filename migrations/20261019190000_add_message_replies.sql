@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "message_replies" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "message_id" INTEGER NOT NULL,
+    "sender" TEXT NOT NULL,
+    "subject" TEXT,
+    "body_text" TEXT,
+    "body_html" TEXT,
+    "external_id" TEXT,
+    "received_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "message_replies_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "messages" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "message_replies_message_id_idx" ON "message_replies"("message_id");
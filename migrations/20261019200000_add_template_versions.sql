@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "template_versions" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "template_id" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body_html" TEXT NOT NULL,
+    "body_text" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "template_versions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "templates" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_versions_template_id_version_key" ON "template_versions"("template_id", "version");
+
+-- AlterTable (SQLite allows adding nullable foreign key columns in place)
+ALTER TABLE "templates" ADD COLUMN "published_version_id" INTEGER REFERENCES "template_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "messages" ADD COLUMN "template_version_id" INTEGER REFERENCES "template_versions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "messages" ADD COLUMN "render_latest" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "templates_published_version_id_key" ON "templates"("published_version_id");
+
+-- Backfill: the current content of each template becomes its published version 1
+INSERT INTO "template_versions" ("template_id", "version", "subject", "body_html", "body_text", "created_at")
+SELECT "id", 1, "subject", "body_html", "body_text", "updated_at" FROM "templates";
+
+UPDATE "templates" SET "published_version_id" = (
+    SELECT "id" FROM "template_versions" WHERE "template_versions"."template_id" = "templates"."id" AND "version" = 1
+);
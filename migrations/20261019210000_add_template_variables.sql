@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "templates" ADD COLUMN "variables" TEXT;
+ALTER TABLE "template_versions" ADD COLUMN "variables" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "provider_health" ADD COLUMN "trial_started_at" DATETIME;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "copy_group" TEXT;
+ALTER TABLE "messages" ADD COLUMN "copies_sent" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "messages_copy_group_idx" ON "messages"("copy_group");
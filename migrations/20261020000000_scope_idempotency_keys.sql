@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "idempotency_keys" ADD COLUMN "scope" TEXT NOT NULL DEFAULT '';
+
+-- DropIndex
+DROP INDEX "idempotency_keys_key_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_scope_key_key" ON "idempotency_keys"("scope", "key");
@@ -0,0 +1,149 @@
+/**
+ * Capture Service
+ *
+ * Stores outgoing email in D1 instead of sending it, for development and staging.
+ */
+
+import { type CapturedEmail } from '@prisma/client';
+
+import { parseAttachments, parseEnvelope, serializeEnvelope } from '../email/email-utils';
+import type { EmailProviderParams } from '../lib/email-provider';
+import { getPrismaClient } from '../lib/prisma-client';
+import { escapeHtml } from '../lib/template-engine';
+
+/**
+ * Content Security Policy for viewing captured HTML: no scripts, forms or remote
+ * content, only inline styles and the data URLs of inline images
+ */
+export const CAPTURED_HTML_POLICY = "sandbox; default-src 'none'; img-src data:; style-src 'unsafe-inline'";
+
+class CaptureService {
+	/**
+	 * Store a fully rendered email
+	 *
+	 * @param params - The email as it would have been sent to a provider
+	 * @param env - Environment with DB binding
+	 * @returns The stored email
+	 */
+	static async capture(params: EmailProviderParams, env: Env): Promise<CapturedEmail> {
+		const prisma = getPrismaClient(env);
+		const { to, from, subject, text, html, attachments } = params;
+
+		return prisma.capturedEmail.create({
+			data: {
+				messageId: `captured-${crypto.randomUUID()}`,
+				sender: from,
+				recipients: JSON.stringify(Array.isArray(to) ? to : [to]),
+				envelope: serializeEnvelope(params),
+				subject,
+				bodyText: text,
+				bodyHtml: html || null,
+				attachments: attachments?.length ? JSON.stringify(attachments) : null,
+			},
+		});
+	}
+
+	/**
+	 * List captured emails, newest first, with cursor pagination
+	 *
+	 * @param cursor - Only return emails with a lower ID
+	 * @param limit - Maximum number of emails to return
+	 * @param env - Environment with DB binding
+	 * @returns A page of emails and the cursor for the next page, if any
+	 */
+	static async listCaptured(
+		cursor: number | undefined,
+		limit: number,
+		env: Env,
+	): Promise<{ emails: CapturedEmail[]; nextCursor: number | null }> {
+		const prisma = getPrismaClient(env);
+
+		// Fetch one extra row to know whether another page exists
+		const emails = await prisma.capturedEmail.findMany({
+			where: cursor !== undefined ? { id: { lt: cursor } } : undefined,
+			take: limit + 1,
+			orderBy: { id: 'desc' },
+		});
+
+		const hasMore = emails.length > limit;
+		const page = hasMore ? emails.slice(0, limit) : emails;
+
+		return { emails: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+	}
+
+	/**
+	 * Get a captured email by ID
+	 *
+	 * @param id - Captured email ID
+	 * @param env - Environment with DB binding
+	 * @returns The email, or null if not found
+	 */
+	static async getCaptured(id: number, env: Env): Promise<CapturedEmail | null> {
+		const prisma = getPrismaClient(env);
+		return prisma.capturedEmail.findUnique({ where: { id } });
+	}
+
+	/**
+	 * Delete all captured emails
+	 *
+	 * @param env - Environment with DB binding
+	 * @returns Number of deleted emails
+	 */
+	static async clearCaptured(env: Env): Promise<number> {
+		const prisma = getPrismaClient(env);
+		const { count } = await prisma.capturedEmail.deleteMany();
+		return count;
+	}
+
+	/**
+	 * Format a captured email for API responses
+	 *
+	 * @param email - The captured email
+	 * @param full - Include bodies and attachments, not just the summary
+	 */
+	static formatCaptured(email: CapturedEmail, full: boolean) {
+		const summary = {
+			id: email.id,
+			messageId: email.messageId,
+			from: email.sender,
+			to: JSON.parse(email.recipients) as string[],
+			subject: email.subject,
+			createdAt: email.createdAt,
+		};
+
+		if (!full) {
+			return summary;
+		}
+
+		return {
+			...summary,
+			...parseEnvelope(email.envelope),
+			text: email.bodyText,
+			html: email.bodyHtml,
+			attachments: parseAttachments(email.attachments) ?? [],
+		};
+	}
+
+	/**
+	 * Get the HTML body for viewing in a browser, with inline images resolved
+	 *
+	 * cid: references to inline attachments are replaced with data URLs. The HTML is
+	 * whatever the sender wrote, so serve it with CAPTURED_HTML_POLICY.
+	 *
+	 * @param email - The captured email
+	 * @returns HTML document
+	 */
+	static renderHtml(email: CapturedEmail): string {
+		const attachments = parseAttachments(email.attachments) ?? [];
+
+		return attachments.reduce(
+			(html, attachment) =>
+				attachment.contentId
+					? html.split(`cid:${attachment.contentId}`).join(`data:${attachment.contentType};base64,${attachment.content}`)
+					: html,
+			email.bodyHtml ?? `<pre>${escapeHtml(email.bodyText)}</pre>`,
+		);
+	}
+}
+
+export default CaptureService;
@@ -0,0 +1,96 @@
+import { Hono } from 'hono';
+
+import { PAGINATION_CONFIG } from '../config';
+import CaptureService, { CAPTURED_HTML_POLICY } from './capture-service';
+
+const router = new Hono<{ Bindings: Env }>().basePath('/captures');
+
+/**
+ * Parse a positive integer ID from a route or query parameter
+ */
+function parseId(id: string): number | null {
+	const value = Number(id);
+	return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+// List captured emails, newest first
+router.get('/', async (c) => {
+	const { cursor, limit } = c.req.query();
+
+	const parsedCursor = cursor ? parseId(cursor) : undefined;
+	const parsedLimit = limit ? Number(limit) : PAGINATION_CONFIG.DEFAULT_LIMIT;
+
+	if (parsedCursor === null || !Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > PAGINATION_CONFIG.MAX_LIMIT) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `cursor must be a captured email ID and limit an integer between 1 and ${PAGINATION_CONFIG.MAX_LIMIT}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const { emails, nextCursor } = await CaptureService.listCaptured(parsedCursor, parsedLimit, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Found ${emails.length} captured emails`,
+			data: {
+				emails: emails.map((email) => CaptureService.formatCaptured(email, false)),
+				nextCursor,
+			},
+		},
+		{ status: 200 },
+	);
+});
+
+// View a captured email; ?format=html renders its HTML body
+router.get('/:id', async (c) => {
+	const id = parseId(c.req.param('id'));
+	const email = id ? await CaptureService.getCaptured(id, c.env) : null;
+
+	if (!email) {
+		return c.json(
+			{
+				success: false,
+				code: 404,
+				message: `Captured email not found: ${c.req.param('id')}`,
+			},
+			{ status: 404 },
+		);
+	}
+
+	if (c.req.query('format') === 'html') {
+		return c.html(CaptureService.renderHtml(email), 200, { 'Content-Security-Policy': CAPTURED_HTML_POLICY });
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Captured email found',
+			data: CaptureService.formatCaptured(email, true),
+		},
+		{ status: 200 },
+	);
+});
+
+// Delete all captured emails
+router.delete('/', async (c) => {
+	const count = await CaptureService.clearCaptured(c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Deleted ${count} captured emails`,
+			data: { count },
+		},
+		{ status: 200 },
+	);
+});
+
+export { router };
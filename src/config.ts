@@ -5,7 +5,7 @@
  */
 
 import type { RetryConfig } from './email/retry-service';
-import type { EmailProvider } from './types';
+import type { EmailProvider, TemplateVariableType } from './types';
 
 /**
  * Email configuration
@@ -17,8 +17,72 @@ export const EMAIL_CONFIG = {
 	// Default email provider
 	DEFAULT_PROVIDER: 'mailersend' as EmailProvider,
 
+	// Providers tried in order when a send fails with a retriable error
+	// (templates may override this with their own order)
+	FAILOVER_PROVIDERS: ['mailersend', 'resend', 'ses'] as EmailProvider[],
+
 	// Unsubscribe URL for list-unsubscribe header
 	UNSUBSCRIBE_URL: 'https://pixels-ai.com/unsubscribe',
+
+	// Maximum number of entries accepted by a single batch request
+	MAX_BATCH_SIZE: 500,
+
+	// Maximum number of recipients a batch request may send to immediately; each costs at
+	// least one provider subrequest, and a Worker invocation has a fixed subrequest budget
+	MAX_BATCH_IMMEDIATE_RECIPIENTS: 200,
+
+	// Number of recipients sent to in parallel (each recipient gets its own provider call)
+	SEND_CONCURRENCY: 5,
+
+	// Custom headers callers may set on outgoing mail (matched case-insensitively)
+	ALLOWED_HEADERS: ['In-Reply-To', 'References', 'List-Id', 'List-Unsubscribe', 'List-Unsubscribe-Post', 'X-Entity-Ref-ID'],
+
+	// Maximum length of a custom header value
+	MAX_HEADER_VALUE_LENGTH: 998,
+};
+
+/**
+ * Attachment configuration
+ */
+export const ATTACHMENT_CONFIG = {
+	// Maximum number of attachments per email
+	MAX_COUNT: 10,
+
+	// Maximum decoded size of all attachments (bytes); they are stored with
+	// the message for scheduled and retried sends, so this must fit a D1 row
+	MAX_TOTAL_BYTES: 1024 * 1024,
+
+	// Content types accepted for attachments
+	ALLOWED_CONTENT_TYPES: [
+		'application/pdf',
+		'application/zip',
+		'application/json',
+		'text/calendar',
+		'text/csv',
+		'text/plain',
+		'image/gif',
+		'image/jpeg',
+		'image/png',
+		'image/webp',
+	],
+};
+
+/**
+ * Idempotency configuration for send requests
+ */
+export const IDEMPOTENCY_CONFIG = {
+	// Request header carrying the client-supplied key
+	HEADER_NAME: 'Idempotency-Key',
+
+	// Maximum accepted key length
+	MAX_KEY_LENGTH: 255,
+
+	// How long a key and its response are kept (hours)
+	RETENTION_HOURS: 24,
+
+	// How long a request holds its key before another request with the key may take over (seconds);
+	// longer than a send request runs, so only a request that crashed or timed out loses its key
+	LEASE_SECONDS: 300,
 };
 
 /**
@@ -60,6 +124,41 @@ export const SCHEDULER_CONFIG = {
 	DAILY_REPORT_CRON: '57 23 * * *',
 };
 
+/**
+ * Circuit breaker configuration for email providers
+ */
+export const CIRCUIT_BREAKER_CONFIG = {
+	// Consecutive retriable failures that open a provider's circuit
+	FAILURE_THRESHOLD: 5,
+
+	// Error rate within the window that opens the circuit...
+	ERROR_RATE_THRESHOLD: 0.5,
+
+	// ...once the window has at least this many requests
+	MIN_REQUESTS: 10,
+
+	// Length of the error rate window (seconds)
+	WINDOW_SECONDS: 300,
+
+	// How long a circuit stays open before a trial send is let through (seconds)
+	OPEN_SECONDS: 300,
+
+	// How long a half-open circuit waits for its trial send to report back before
+	// letting another one through, e.g. when the isolate running it died (seconds)
+	TRIAL_TIMEOUT_SECONDS: 60,
+};
+
+/**
+ * Pagination configuration for list endpoints
+ */
+export const PAGINATION_CONFIG = {
+	// Page size when the request does not specify a limit
+	DEFAULT_LIMIT: 50,
+
+	// Largest page size a request may ask for
+	MAX_LIMIT: 100,
+};
+
 /**
  * HTTP client configuration
  */
@@ -67,3 +166,75 @@ export const HTTP_CONFIG = {
 	// Default timeout for provider API calls (milliseconds)
 	DEFAULT_TIMEOUT: 10000,
 };
+
+/**
+ * SMTP client configuration
+ */
+export const SMTP_CONFIG = {
+	// Port used when SMTP_PORT is not set (submission with STARTTLS)
+	DEFAULT_PORT: 587,
+
+	// Time allowed for a whole SMTP session, from connect to QUIT (milliseconds)
+	SESSION_TIMEOUT: 30000,
+};
+
+/**
+ * Delivery webhook configuration
+ */
+export const WEBHOOK_CONFIG = {
+	// Maximum age of a signed webhook timestamp (seconds), to reject replays
+	SIGNATURE_TOLERANCE_SECONDS: 300,
+
+	// Maximum age of an SNS message (seconds); longer than the signature tolerance
+	// because SNS keeps the original timestamp when it retries a delivery
+	SNS_MAX_MESSAGE_AGE_SECONDS: 3600,
+
+	// Hosts SNS signing certificates may be downloaded from
+	SNS_CERT_HOST_PATTERN: /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/,
+};
+
+/**
+ * Inbound email configuration
+ */
+export const INBOUND_CONFIG = {
+	// Largest inbound message accepted (bytes); replies are stored in D1
+	MAX_SIZE: 1024 * 1024,
+
+	// Hex characters of the HMAC kept in reply and unsubscribe address tokens
+	TOKEN_SIGNATURE_LENGTH: 16,
+
+	// Subjects of replies treated as unsubscribe requests (RFC 2369 mailto: links usually set one)
+	UNSUBSCRIBE_SUBJECT_PATTERN: /^\s*unsubscribe\b/i,
+};
+
+/**
+ * Project and template management configuration
+ */
+export const TEMPLATE_CONFIG = {
+	// Project and template keys: letters, digits, dashes and underscores
+	KEY_PATTERN: /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/,
+
+	// Maximum length of display names and descriptions
+	MAX_NAME_LENGTH: 200,
+	MAX_DESCRIPTION_LENGTH: 1000,
+
+	// Maximum length of a subject line
+	MAX_SUBJECT_LENGTH: 998,
+
+	// Maximum length of each template body (characters); templates are stored in D1 rows
+	MAX_BODY_LENGTH: 256 * 1024,
+
+	// Maximum length of a rendered subject or body, so loops over large lists cannot exhaust memory
+	MAX_RENDERED_LENGTH: 1024 * 1024,
+
+	// Locale and time zone of the date and currency filters
+	LOCALE: 'en-US',
+	TIME_ZONE: 'UTC',
+
+	// Declared template variables: allowed types and maximum number per template
+	VARIABLE_TYPES: ['string', 'number', 'boolean', 'date', 'array', 'object'] as TemplateVariableType[],
+	MAX_VARIABLES: 100,
+
+	// Attempts to save a template change that races with concurrent changes
+	MAX_UPDATE_ATTEMPTS: 3,
+};
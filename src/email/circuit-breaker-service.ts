@@ -0,0 +1,257 @@
+/**
+ * Circuit Breaker Service
+ *
+ * Tracks the health of each email provider in D1 so it is shared across isolates.
+ * After too many retriable failures a provider's circuit opens and sends to it are
+ * skipped; once the open period has passed, a single trial send (half-open) decides
+ * whether the circuit closes again or re-opens.
+ */
+
+import { type CircuitState, type ProviderHealth } from '@prisma/client';
+
+import { CIRCUIT_BREAKER_CONFIG } from '../config';
+import { getAvailableProviders, getProviderName, isProviderConfigured } from '../lib/email-provider';
+import { getPrismaClient } from '../lib/prisma-client';
+import type { EmailProvider, EmailResponse } from '../types';
+
+/**
+ * Whether a provider may be sent to right now
+ */
+export type CircuitCheck = { allowed: true } | { allowed: false; retryAt: Date };
+
+/**
+ * Breaker state and health of a provider, as exposed by the API
+ */
+export interface ProviderHealthStatus {
+	provider: EmailProvider;
+	displayName: string;
+	configured: boolean;
+	state: CircuitState;
+	consecutiveFailures: number;
+	windowRequests: number;
+	windowFailures: number;
+	errorRate: number;
+	openedAt: Date | null;
+	retryAt: Date | null;
+	lastSuccessAt: Date | null;
+	lastFailureAt: Date | null;
+	lastError: string | null;
+}
+
+/**
+ * Time at which an open circuit lets trial sends through
+ */
+function getRetryAt(openedAt: Date): Date {
+	return new Date(openedAt.getTime() + CIRCUIT_BREAKER_CONFIG.OPEN_SECONDS * 1000);
+}
+
+/**
+ * Time after which a trial send that never reported back no longer blocks the next one
+ */
+function getTrialExpiry(trialStartedAt: Date): Date {
+	return new Date(trialStartedAt.getTime() + CIRCUIT_BREAKER_CONFIG.TRIAL_TIMEOUT_SECONDS * 1000);
+}
+
+class CircuitBreakerService {
+	/**
+	 * Read the health state of several providers in one query
+	 *
+	 * @param providers - The email provider names
+	 * @param env - Environment with DB binding
+	 * @returns Health by provider; providers without a row have never failed. Empty if the state cannot be read.
+	 */
+	static async getCircuits(providers: EmailProvider[], env: Env): Promise<Map<EmailProvider, ProviderHealth>> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			const rows = await prisma.providerHealth.findMany({ where: { provider: { in: providers } } });
+			return new Map(rows.map((row) => [row.provider, row]));
+		} catch (error) {
+			console.error(`Error reading circuits for ${providers.join(', ')}: ${error}`);
+			return new Map();
+		}
+	}
+
+	/**
+	 * Check whether a provider's circuit allows sending
+	 *
+	 * An open circuit past its open period moves to half-open and lets exactly one
+	 * trial send through; everything else waits for that trial's result. The trial is
+	 * claimed with a conditional update, so concurrent isolates cannot both get it.
+	 * Sends are allowed if the health state cannot be written, so a D1 problem never blocks mail.
+	 *
+	 * @param provider - The email provider name
+	 * @param health - The provider's health, as read by getCircuits
+	 * @param env - Environment with DB binding
+	 * @returns Whether sending is allowed, and when to try again if not
+	 */
+	static async checkCircuit(provider: EmailProvider, health: ProviderHealth | undefined, env: Env): Promise<CircuitCheck> {
+		if (!health || health.state === 'CLOSED') {
+			return { allowed: true };
+		}
+
+		const now = new Date();
+		if (health.state === 'OPEN' && health.openedAt && getRetryAt(health.openedAt) > now) {
+			return { allowed: false, retryAt: getRetryAt(health.openedAt) };
+		}
+
+		// Half-open with a trial still in flight
+		if (health.state === 'HALF_OPEN' && health.trialStartedAt && getTrialExpiry(health.trialStartedAt) > now) {
+			return { allowed: false, retryAt: getTrialExpiry(health.trialStartedAt) };
+		}
+
+		const prisma = getPrismaClient(env);
+		try {
+			const { count } = await prisma.providerHealth.updateMany({
+				where: { provider, state: health.state, openedAt: health.openedAt, trialStartedAt: health.trialStartedAt },
+				data: { state: 'HALF_OPEN', trialStartedAt: now },
+			});
+
+			if (count === 0) {
+				// Another send claimed the trial first
+				return { allowed: false, retryAt: getTrialExpiry(now) };
+			}
+
+			console.info(`Circuit for ${getProviderName(provider)} is half-open, allowing a trial send`);
+			return { allowed: true };
+		} catch (error) {
+			console.error(`Error checking circuit for ${provider}: ${error}`);
+			return { allowed: true };
+		}
+	}
+
+	/**
+	 * Record the outcome of a send and open or close the circuit as needed
+	 *
+	 * Only retriable failures (rate limits, server and network errors) count against a
+	 * provider; a rejected request still means the provider is up. Counters are
+	 * incremented in the database and state changes are conditional on the state they
+	 * change from, so concurrent sends never lose each other's results.
+	 *
+	 * @param provider - The email provider name
+	 * @param result - Result of the send
+	 * @param env - Environment with DB binding
+	 */
+	static async recordResult(provider: EmailProvider, result: EmailResponse, env: Env): Promise<void> {
+		const prisma = getPrismaClient(env);
+		const failed = !result.success && Boolean(result.retriable);
+		const now = new Date();
+		const outcome = failed ? { lastFailureAt: now, lastError: result.message } : { lastSuccessAt: now };
+
+		try {
+			let health = await prisma.providerHealth.upsert({
+				where: { provider },
+				create: { provider, windowRequests: 1, windowFailures: failed ? 1 : 0, consecutiveFailures: failed ? 1 : 0, ...outcome },
+				update: {
+					windowRequests: { increment: 1 },
+					windowFailures: { increment: failed ? 1 : 0 },
+					consecutiveFailures: failed ? { increment: 1 } : 0,
+					...outcome,
+				},
+			});
+
+			// Start a new error rate window once the current one has passed; only the
+			// first send to see the old window resets it
+			if (now.getTime() - health.windowStartedAt.getTime() > CIRCUIT_BREAKER_CONFIG.WINDOW_SECONDS * 1000) {
+				const window = { windowStartedAt: now, windowRequests: 1, windowFailures: failed ? 1 : 0 };
+				const { count } = await prisma.providerHealth.updateMany({
+					where: { provider, windowStartedAt: health.windowStartedAt },
+					data: window,
+				});
+				if (count > 0) {
+					health = { ...health, ...window };
+				}
+			}
+
+			const state = this.getNextState(health.state, failed, health.consecutiveFailures, health.windowRequests, health.windowFailures);
+			if (state === health.state) {
+				return;
+			}
+
+			const { count } = await prisma.providerHealth.updateMany({
+				where: { provider, state: health.state },
+				data: state === 'OPEN' ? { state, openedAt: now, trialStartedAt: null } : { state, openedAt: null, trialStartedAt: null },
+			});
+
+			if (count > 0 && state === 'OPEN') {
+				console.warn(`Circuit for ${getProviderName(provider)} opened: ${result.message}`);
+			} else if (count > 0) {
+				console.info(`Circuit for ${getProviderName(provider)} closed`);
+			}
+		} catch (error) {
+			console.error(`Error recording result for ${provider}: ${error}`);
+		}
+	}
+
+	/**
+	 * Decide the circuit state after a send
+	 */
+	private static getNextState(
+		current: CircuitState,
+		failed: boolean,
+		consecutiveFailures: number,
+		windowRequests: number,
+		windowFailures: number,
+	): CircuitState {
+		if (!failed) {
+			// Any success closes the circuit, including a half-open trial send
+			return 'CLOSED';
+		}
+
+		if (current === 'HALF_OPEN') {
+			// A failed trial send re-opens the circuit
+			return 'OPEN';
+		}
+
+		if (current === 'OPEN') {
+			return 'OPEN';
+		}
+
+		const errorRate = windowFailures / windowRequests;
+		if (
+			consecutiveFailures >= CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD ||
+			(windowRequests >= CIRCUIT_BREAKER_CONFIG.MIN_REQUESTS && errorRate >= CIRCUIT_BREAKER_CONFIG.ERROR_RATE_THRESHOLD)
+		) {
+			return 'OPEN';
+		}
+
+		return 'CLOSED';
+	}
+
+	/**
+	 * Get the breaker state and health of every registered provider
+	 *
+	 * @param env - Environment with DB binding and provider secrets
+	 * @returns One entry per registered provider
+	 */
+	static async getHealth(env: Env): Promise<ProviderHealthStatus[]> {
+		const prisma = getPrismaClient(env);
+
+		const rows = await prisma.providerHealth.findMany();
+		const byProvider = new Map<string, ProviderHealth>(rows.map((row) => [row.provider, row]));
+
+		return getAvailableProviders().map((provider) => {
+			const health = byProvider.get(provider);
+			const windowRequests = health?.windowRequests ?? 0;
+			const windowFailures = health?.windowFailures ?? 0;
+
+			return {
+				provider,
+				displayName: getProviderName(provider),
+				configured: isProviderConfigured(provider, env),
+				state: health?.state ?? 'CLOSED',
+				consecutiveFailures: health?.consecutiveFailures ?? 0,
+				windowRequests,
+				windowFailures,
+				errorRate: windowRequests > 0 ? windowFailures / windowRequests : 0,
+				openedAt: health?.openedAt ?? null,
+				retryAt: health?.state === 'OPEN' && health.openedAt ? getRetryAt(health.openedAt) : null,
+				lastSuccessAt: health?.lastSuccessAt ?? null,
+				lastFailureAt: health?.lastFailureAt ?? null,
+				lastError: health?.lastError ?? null,
+			};
+		});
+	}
+}
+
+export default CircuitBreakerService;
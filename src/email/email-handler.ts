@@ -7,10 +7,29 @@
 
 import type { ExecutionContext } from 'hono';
 
-import type { EmailResponse, SendEmailRequestBody } from '../types';
-import { getProvider, isFutureDate, parseScheduledDate } from './email-utils';
+import { ATTACHMENT_CONFIG, EMAIL_CONFIG } from '../config';
+import { normalizeError } from '../errors';
+import {
+	getAvailableProviders,
+	getProviderDefinition,
+	isCaptureForced,
+	isProviderConfigured,
+	supportsCapabilities,
+} from '../lib/email-provider';
+import { isTrackingConfigured } from '../tracking/tracking-service';
+import type {
+	BatchEmailEntry,
+	BatchEmailEntryResult,
+	BatchEmailRequestBody,
+	EmailAttachment,
+	EmailResponse,
+	SendEmailRequestBody,
+	TemplateVariables,
+} from '../types';
+import { getBase64DecodedSize, getProvider, isFutureDate, isValidAddress, normalizeRecipients, parseScheduledDate } from './email-utils';
 import EmailService from './emails';
 import MessageLogService from './message-log';
+import TemplateService, { type TemplateData, type VariableValidationResult } from './templates';
 
 /**
  * Result of email request validation
@@ -32,9 +51,244 @@ function validateBaseRequest(body: SendEmailRequestBody): ValidationResult {
 			statusCode: 400,
 		};
 	}
+
+	if (!isValidAddress(body.from)) {
+		return {
+			valid: false,
+			error: `Invalid from address: ${body.from}`,
+			statusCode: 400,
+		};
+	}
+
+	if (body.replyTo !== undefined && !isValidAddress(body.replyTo)) {
+		return {
+			valid: false,
+			error: `Invalid replyTo address: ${body.replyTo}`,
+			statusCode: 400,
+		};
+	}
+
+	for (const field of ['to', 'cc', 'bcc'] as const) {
+		const addresses = body[field];
+		if (addresses === undefined) {
+			continue;
+		}
+		const invalid = normalizeRecipients(addresses).find((email) => !isValidAddress(email));
+		if (invalid !== undefined) {
+			return {
+				valid: false,
+				error: `Invalid ${field} address: ${invalid}`,
+				statusCode: 400,
+			};
+		}
+	}
+
+	const headersValidation = validateHeaders(body.headers);
+	if (!headersValidation.valid) {
+		return headersValidation;
+	}
+
+	return validateAttachments(body.attachments);
+}
+
+/**
+ * Validate custom headers against the allowlist
+ */
+function validateHeaders(headers: Record<string, string> | undefined): ValidationResult {
+	if (headers === undefined) {
+		return { valid: true };
+	}
+
+	if (typeof headers !== 'object' || headers === null || Array.isArray(headers)) {
+		return { valid: false, error: 'headers must be an object', statusCode: 400 };
+	}
+
+	const allowed = EMAIL_CONFIG.ALLOWED_HEADERS.map((name) => name.toLowerCase());
+	for (const [name, value] of Object.entries(headers)) {
+		if (!allowed.includes(name.toLowerCase())) {
+			return {
+				valid: false,
+				error: `Header not allowed: ${name}. Allowed: ${EMAIL_CONFIG.ALLOWED_HEADERS.join(', ')}`,
+				statusCode: 400,
+			};
+		}
+
+		if (typeof value !== 'string' || /[\r\n]/.test(value) || value.length > EMAIL_CONFIG.MAX_HEADER_VALUE_LENGTH) {
+			return { valid: false, error: `Invalid value for header ${name}`, statusCode: 400 };
+		}
+	}
+
 	return { valid: true };
 }
 
+/**
+ * Validate attachment shape, content type and total size
+ */
+function validateAttachments(attachments: EmailAttachment[] | undefined): ValidationResult {
+	if (attachments === undefined) {
+		return { valid: true };
+	}
+
+	if (!Array.isArray(attachments)) {
+		return { valid: false, error: 'attachments must be an array', statusCode: 400 };
+	}
+
+	if (attachments.length > ATTACHMENT_CONFIG.MAX_COUNT) {
+		return {
+			valid: false,
+			error: `Too many attachments: ${attachments.length} (maximum ${ATTACHMENT_CONFIG.MAX_COUNT})`,
+			statusCode: 400,
+		};
+	}
+
+	let totalBytes = 0;
+	for (const attachment of attachments) {
+		const { filename, contentType, content, contentId } = attachment ?? {};
+
+		if (typeof filename !== 'string' || !filename || /[\\/\r\n]/.test(filename)) {
+			return { valid: false, error: `Invalid attachment filename: ${filename}`, statusCode: 400 };
+		}
+
+		if (typeof contentType !== 'string' || !ATTACHMENT_CONFIG.ALLOWED_CONTENT_TYPES.includes(contentType.toLowerCase())) {
+			return {
+				valid: false,
+				error: `Unsupported content type for attachment "${filename}": ${contentType}. Allowed: ${ATTACHMENT_CONFIG.ALLOWED_CONTENT_TYPES.join(', ')}`,
+				statusCode: 400,
+			};
+		}
+
+		if (contentId !== undefined && (typeof contentId !== 'string' || !/^[\w.@-]+$/.test(contentId))) {
+			return { valid: false, error: `Invalid contentId for attachment "${filename}": ${contentId}`, statusCode: 400 };
+		}
+
+		const size = typeof content === 'string' ? getBase64DecodedSize(content) : null;
+		if (size === null) {
+			return { valid: false, error: `Attachment "${filename}" content must be base64 encoded`, statusCode: 400 };
+		}
+		totalBytes += size;
+	}
+
+	if (totalBytes > ATTACHMENT_CONFIG.MAX_TOTAL_BYTES) {
+		return {
+			valid: false,
+			error: `Attachments too large: ${totalBytes} bytes (maximum ${ATTACHMENT_CONFIG.MAX_TOTAL_BYTES})`,
+			statusCode: 400,
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validate that the requested provider is registered, configured and supports the request
+ */
+function validateProvider(body: Pick<SendEmailRequestBody, 'provider' | 'headers' | 'attachments'>, env: Env): ValidationResult {
+	const provider = getProvider(body.provider);
+
+	if (!getProviderDefinition(provider)) {
+		return {
+			valid: false,
+			error: `Unknown provider: ${provider}. Available: ${getAvailableProviders().join(', ')}`,
+			statusCode: 400,
+		};
+	}
+
+	// Everything goes to the capture provider, which supports every feature
+	if (isCaptureForced(env)) {
+		return { valid: true };
+	}
+
+	if (!isProviderConfigured(provider, env)) {
+		return {
+			valid: false,
+			error: `Provider is not configured: ${provider}`,
+			statusCode: 400,
+		};
+	}
+
+	const required = { attachments: Boolean(body.attachments?.length), customHeaders: Boolean(body.headers) };
+	if (!supportsCapabilities(provider, required)) {
+		return {
+			valid: false,
+			error: `Provider ${provider} does not support ${required.attachments ? 'attachments' : 'custom headers'}`,
+			statusCode: 400,
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validate that open and click tracking, when requested, can sign tracking links
+ */
+function validateTracking(track: boolean | undefined, env: Env): ValidationResult {
+	if (track === undefined) {
+		return { valid: true };
+	}
+
+	if (typeof track !== 'boolean') {
+		return { valid: false, error: 'track must be a boolean', statusCode: 400 };
+	}
+
+	if (track && !isTrackingConfigured(env)) {
+		return { valid: false, error: 'Tracking is not configured', statusCode: 400 };
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validate a requested template version and resolve its ID
+ *
+ * "latest" and no version both resolve to no ID; the caller decides which version that means.
+ */
+async function validateTemplateVersion(
+	templateId: number,
+	templateName: string,
+	version: number | 'latest' | undefined,
+	env: Env,
+): Promise<ValidationResult & { versionId?: number }> {
+	if (version === undefined || version === 'latest') {
+		return { valid: true };
+	}
+
+	if (!Number.isInteger(version) || version < 1) {
+		return { valid: false, error: 'templateVersion must be a version number or "latest"', statusCode: 400 };
+	}
+
+	const versionId = await TemplateService.getVersionId(templateId, version, env);
+	if (!versionId) {
+		return { valid: false, error: `Template version not found: ${templateName} v${version}`, statusCode: 404 };
+	}
+
+	return { valid: true, versionId };
+}
+
+/**
+ * Validate template variables against the template's declared variables
+ */
+export function validateTemplateVariables(
+	variables: TemplateVariables,
+	template: TemplateData,
+): ValidationResult & { data?: VariableValidationResult } {
+	if (typeof variables !== 'object' || variables === null || Array.isArray(variables)) {
+		return { valid: false, error: 'templateVariables must be an object', statusCode: 400 };
+	}
+
+	const result = TemplateService.validateVariables(template, variables);
+	if (result.missing.length === 0 && result.mistyped.length === 0) {
+		return { valid: true };
+	}
+
+	const problems = [
+		...(result.missing.length > 0 ? [`missing ${result.missing.join(', ')}`] : []),
+		...(result.mistyped.length > 0
+			? [`wrong type for ${result.mistyped.map((v) => `${v.name} (expected ${v.expected})`).join(', ')}`]
+			: []),
+	];
+	return { valid: false, error: `Invalid template variables: ${problems.join('; ')}`, statusCode: 400, data: result };
+}
+
 /**
  * Validate and parse scheduled date
  */
@@ -101,7 +355,7 @@ function validateEmailType(body: SendEmailRequestBody): ValidationResult {
  * Handle direct email sending (with or without scheduling)
  */
 export async function handleDirectEmail(body: SendEmailRequestBody, env: Env, executionContext: ExecutionContext): Promise<EmailResponse> {
-	const { to, from, subject, body: bodyText, html, provider, sendAt } = body;
+	const { to, from, replyTo, cc, bcc, headers, subject, body: bodyText, html, attachments, provider, sendAt, track } = body;
 
 	// Validate fields
 	const baseValidation = validateBaseRequest(body);
@@ -131,6 +385,24 @@ export async function handleDirectEmail(body: SendEmailRequestBody, env: Env, ex
 		};
 	}
 
+	const providerValidation = validateProvider(body, env);
+	if (!providerValidation.valid) {
+		return {
+			success: false,
+			code: providerValidation.statusCode!,
+			message: providerValidation.error!,
+		};
+	}
+
+	const trackingValidation = validateTracking(track, env);
+	if (!trackingValidation.valid) {
+		return {
+			success: false,
+			code: trackingValidation.statusCode!,
+			message: trackingValidation.error!,
+		};
+	}
+
 	if (!subject || !bodyText || !html) {
 		return {
 			success: false,
@@ -140,10 +412,15 @@ export async function handleDirectEmail(body: SendEmailRequestBody, env: Env, ex
 	}
 
 	// Log the message with scheduling info
-	const loggedMessages = await MessageLogService.logMessage({ to, from, subject }, env, {
-		scheduledAt: dateValidation.scheduledAt,
-		provider: getProvider(provider),
-	});
+	const loggedMessages = await MessageLogService.logMessage(
+		{ to, from, replyTo, cc, bcc, headers, subject, body: bodyText, html, attachments },
+		env,
+		{
+			scheduledAt: dateValidation.scheduledAt,
+			provider: getProvider(provider),
+			tracked: track,
+		},
+	);
 
 	// If scheduled for later, just log and return
 	if (dateValidation.scheduledAt && isFutureDate(dateValidation.scheduledAt)) {
@@ -163,20 +440,29 @@ export async function handleDirectEmail(body: SendEmailRequestBody, env: Env, ex
 		{
 			to,
 			from,
+			replyTo,
+			cc,
+			bcc,
+			headers,
 			subject,
 			body: bodyText,
 			html,
+			attachments,
 			provider: getProvider(provider),
+			messageIds: loggedMessages.map((m) => m.id),
+			copyGroup: loggedMessages[0]?.copyGroup ?? undefined,
+			track,
 		},
 		env,
 	);
 
-	// Update message log after sending (non-blocking)
+	// Update each message log from its recipient's result (non-blocking)
 	executionContext.waitUntil(
 		sendPromise.then(async (result) => {
 			await Promise.all(
-				loggedMessages.map(async (message) => {
-					await MessageLogService.updateMessageLog(message.id, result, env, { provider: getProvider(provider) });
+				loggedMessages.map(async (message, index) => {
+					const recipientResult = result.recipients?.[index] ?? result;
+					await MessageLogService.updateMessageLog(message.id, recipientResult, env, { provider: getProvider(provider) });
 				}),
 			);
 		}),
@@ -186,69 +472,131 @@ export async function handleDirectEmail(body: SendEmailRequestBody, env: Env, ex
 		success: true,
 		code: 201,
 		message: 'Request received',
+		data: {
+			messageIds: loggedMessages.map((m) => m.id),
+		},
 	};
 }
 
 /**
- * Handle template email sending (with or without scheduling)
+ * Validate the per-message fields of a template email request
  */
-export async function handleTemplateEmail(
-	body: SendEmailRequestBody,
-	env: Env,
-	executionContext: ExecutionContext,
-): Promise<EmailResponse> {
-	const { to, from, templateName, templateVariables, provider, sendAt } = body;
-
-	// Validate fields
+function validateTemplateMessage(body: SendEmailRequestBody): ValidationResult & { scheduledAt?: Date } {
 	const baseValidation = validateBaseRequest(body);
 	if (!baseValidation.valid) {
-		return {
-			success: false,
-			code: baseValidation.statusCode!,
-			message: baseValidation.error!,
-		};
+		return baseValidation;
 	}
 
-	const dateValidation = validateScheduledDate(sendAt);
+	const dateValidation = validateScheduledDate(body.sendAt);
 	if (!dateValidation.valid) {
-		return {
-			success: false,
-			code: dateValidation.statusCode!,
-			message: dateValidation.error!,
-		};
+		return dateValidation;
 	}
 
 	const typeValidation = validateEmailType(body);
 	if (!typeValidation.valid) {
+		return typeValidation;
+	}
+
+	if (!body.templateName || !body.templateVariables) {
 		return {
-			success: false,
-			code: typeValidation.statusCode!,
-			message: typeValidation.error!,
+			valid: false,
+			error: 'Missing required fields for template email',
+			statusCode: 400,
 		};
 	}
 
-	if (!templateName || !templateVariables) {
+	return { valid: true, scheduledAt: dateValidation.scheduledAt };
+}
+
+/**
+ * Resolve the template and version a template email renders
+ *
+ * Unknown and deactivated templates are rejected before anything is logged. The
+ * returned template holds the content and declarations of the version to render.
+ */
+async function resolveTemplate(
+	templateName: string,
+	templateVersion: number | 'latest' | undefined,
+	env: Env,
+): Promise<ValidationResult & { template?: TemplateData; templateVersionId?: number }> {
+	const template = await TemplateService.getTemplate(templateName, env);
+	if (!template) {
+		return { valid: false, error: `Template not found: ${templateName}`, statusCode: 404 };
+	}
+
+	if (!template.isActive) {
+		return { valid: false, error: `Template is inactive: ${templateName}`, statusCode: 400 };
+	}
+
+	const versionValidation = await validateTemplateVersion(template.id, templateName, templateVersion, env);
+	if (!versionValidation.valid) {
+		return versionValidation;
+	}
+
+	// Pin the version to render now, so later edits do not change scheduled messages
+	const templateVersionId = versionValidation.versionId ?? template.versionId ?? undefined;
+	const pinned = versionValidation.versionId ? await TemplateService.getTemplate(templateName, env, versionValidation.versionId) : template;
+	if (!pinned) {
+		return { valid: false, error: `Template version not found: ${templateName} v${templateVersion}`, statusCode: 404 };
+	}
+
+	return { valid: true, template: pinned, templateVersionId };
+}
+
+/**
+ * Log a validated template email and send it now, or leave it for the scheduler
+ */
+async function queueTemplateEmail(
+	body: SendEmailRequestBody,
+	template: TemplateData,
+	templateVersionId: number | undefined,
+	scheduledAt: Date | undefined,
+	env: Env,
+	executionContext: ExecutionContext,
+): Promise<EmailResponse> {
+	const { to, from, replyTo, cc, bcc, headers, templateName, templateVariables, attachments, provider, track, templateVersion } = body;
+
+	// Check the variables against the declarations of the version to render
+	const variableValidation = validateTemplateVariables(templateVariables!, template);
+	if (!variableValidation.valid) {
 		return {
 			success: false,
-			code: 400,
-			message: 'Missing required fields for template email',
+			code: variableValidation.statusCode!,
+			message: variableValidation.error!,
+			data: variableValidation.data,
 		};
 	}
 
+	const request = {
+		to,
+		from,
+		replyTo,
+		cc,
+		bcc,
+		headers,
+		templateName: templateName!,
+		templateVariables: templateVariables!,
+		templateVersionId,
+		attachments,
+	};
+
 	// Log the message with scheduling info
-	const loggedMessages = await MessageLogService.logTemplateEmail({ to, from, templateName, templateVariables }, env, {
-		scheduledAt: dateValidation.scheduledAt,
+	const loggedMessages = await MessageLogService.logTemplateEmail(request, env, {
+		scheduledAt,
 		provider: getProvider(provider),
+		tracked: track,
+		renderLatest: templateVersion === 'latest',
+		template,
 	});
 
 	// If scheduled for later, just log and return
-	if (dateValidation.scheduledAt && isFutureDate(dateValidation.scheduledAt)) {
+	if (scheduledAt && isFutureDate(scheduledAt)) {
 		return {
 			success: true,
 			code: 201,
-			message: `Email scheduled for ${dateValidation.scheduledAt.toISOString()}`,
+			message: `Email scheduled for ${scheduledAt.toISOString()}`,
 			data: {
-				scheduledAt: dateValidation.scheduledAt.toISOString(),
+				scheduledAt: scheduledAt.toISOString(),
 				messageIds: loggedMessages.map((m) => m.id),
 			},
 		};
@@ -257,21 +605,23 @@ export async function handleTemplateEmail(
 	// Send immediately (non-blocking)
 	const sendPromise = EmailService.sendTemplateEmail(
 		{
-			to,
-			from,
-			templateName,
-			templateVariables,
+			...request,
 			provider: getProvider(provider),
+			messageIds: loggedMessages.map((m) => m.id),
+			copyGroup: loggedMessages[0]?.copyGroup ?? undefined,
+			track,
 		},
 		env,
+		template,
 	);
 
-	// Update message log after sending (non-blocking)
+	// Update each message log from its recipient's result (non-blocking)
 	executionContext.waitUntil(
 		sendPromise.then(async (result) => {
 			await Promise.all(
-				loggedMessages.map(async (message) => {
-					await MessageLogService.updateMessageLog(message.id, result, env, { provider: getProvider(provider) });
+				loggedMessages.map(async (message, index) => {
+					const recipientResult = result.recipients?.[index] ?? result;
+					await MessageLogService.updateMessageLog(message.id, recipientResult, env, { provider: getProvider(provider) });
 				}),
 			);
 		}),
@@ -281,5 +631,206 @@ export async function handleTemplateEmail(
 		success: true,
 		code: 201,
 		message: 'Request received',
+		data: {
+			messageIds: loggedMessages.map((m) => m.id),
+		},
+	};
+}
+
+/**
+ * Handle template email sending (with or without scheduling)
+ */
+export async function handleTemplateEmail(
+	body: SendEmailRequestBody,
+	env: Env,
+	executionContext: ExecutionContext,
+): Promise<EmailResponse> {
+	// Validate fields
+	const messageValidation = validateTemplateMessage(body);
+	if (!messageValidation.valid) {
+		return {
+			success: false,
+			code: messageValidation.statusCode!,
+			message: messageValidation.error!,
+		};
+	}
+
+	const providerValidation = validateProvider(body, env);
+	if (!providerValidation.valid) {
+		return {
+			success: false,
+			code: providerValidation.statusCode!,
+			message: providerValidation.error!,
+		};
+	}
+
+	const trackingValidation = validateTracking(body.track, env);
+	if (!trackingValidation.valid) {
+		return {
+			success: false,
+			code: trackingValidation.statusCode!,
+			message: trackingValidation.error!,
+		};
+	}
+
+	const resolved = await resolveTemplate(body.templateName!, body.templateVersion, env);
+	if (!resolved.valid) {
+		return {
+			success: false,
+			code: resolved.statusCode!,
+			message: resolved.error!,
+		};
+	}
+
+	return queueTemplateEmail(body, resolved.template!, resolved.templateVersionId, messageValidation.scheduledAt, env, executionContext);
+}
+
+/**
+ * Validate a batch email request
+ */
+function validateBatchRequest(body: BatchEmailRequestBody): ValidationResult {
+	if (!body.from || !body.templateName) {
+		return {
+			valid: false,
+			error: 'Missing required fields: from and templateName',
+			statusCode: 400,
+		};
+	}
+
+	if (!Array.isArray(body.entries) || body.entries.length === 0) {
+		return {
+			valid: false,
+			error: 'entries must be a non-empty array',
+			statusCode: 400,
+		};
+	}
+
+	if (body.entries.length > EMAIL_CONFIG.MAX_BATCH_SIZE) {
+		return {
+			valid: false,
+			error: `Too many entries: ${body.entries.length} (maximum ${EMAIL_CONFIG.MAX_BATCH_SIZE})`,
+			statusCode: 400,
+		};
+	}
+
+	// Every recipient sent to now costs at least one provider subrequest from this invocation
+	const immediate = body.entries
+		.filter((entry) => !entry?.sendAt && entry?.to)
+		.reduce((total, entry) => total + normalizeRecipients(entry.to).length, 0);
+	if (immediate > EMAIL_CONFIG.MAX_BATCH_IMMEDIATE_RECIPIENTS) {
+		return {
+			valid: false,
+			error: `Too many recipients to send now: ${immediate} (maximum ${EMAIL_CONFIG.MAX_BATCH_IMMEDIATE_RECIPIENTS}). Split the batch or schedule entries with sendAt.`,
+			statusCode: 400,
+		};
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Handle a batch of template emails, each entry with its own recipients and variables
+ *
+ * The template is resolved once for the whole batch. Entries are validated, logged
+ * and sent independently, a few at a time, so one bad entry does not reject the batch.
+ */
+export async function handleBatchEmail(body: BatchEmailRequestBody, env: Env, executionContext: ExecutionContext): Promise<EmailResponse> {
+	const { from, replyTo, templateName, provider, track, templateVersion, entries } = body;
+
+	const batchValidation = validateBatchRequest(body);
+	if (!batchValidation.valid) {
+		return {
+			success: false,
+			code: batchValidation.statusCode!,
+			message: batchValidation.error!,
+		};
+	}
+
+	const providerValidation = validateProvider(body, env);
+	if (!providerValidation.valid) {
+		return {
+			success: false,
+			code: providerValidation.statusCode!,
+			message: providerValidation.error!,
+		};
+	}
+
+	const trackingValidation = validateTracking(track, env);
+	if (!trackingValidation.valid) {
+		return {
+			success: false,
+			code: trackingValidation.statusCode!,
+			message: trackingValidation.error!,
+		};
+	}
+
+	const resolved = await resolveTemplate(templateName, templateVersion, env);
+	if (!resolved.valid) {
+		return {
+			success: false,
+			code: resolved.statusCode!,
+			message: resolved.error!,
+		};
+	}
+
+	const handleEntry = async (entry: BatchEmailEntry, index: number): Promise<BatchEmailEntryResult> => {
+		const entryBody: SendEmailRequestBody = {
+			to: entry?.to,
+			from,
+			replyTo,
+			templateName,
+			templateVariables: entry?.templateVariables,
+			provider,
+			sendAt: entry?.sendAt,
+			track,
+			templateVersion,
+		};
+
+		let result: EmailResponse;
+		try {
+			const messageValidation = validateTemplateMessage(entryBody);
+			result = messageValidation.valid
+				? await queueTemplateEmail(
+						entryBody,
+						resolved.template!,
+						resolved.templateVersionId,
+						messageValidation.scheduledAt,
+						env,
+						executionContext,
+					)
+				: { success: false, code: messageValidation.statusCode!, message: messageValidation.error! };
+		} catch (error) {
+			const { message, code } = normalizeError(error);
+			console.error(`Batch entry ${index} failed: ${message}`);
+			result = { success: false, code, message };
+		}
+
+		const { messageIds, ...data } = result.data ?? {};
+		return {
+			index,
+			success: result.success,
+			code: result.code,
+			message: result.message,
+			messageIds: (messageIds as number[] | undefined) ?? [],
+			...(Object.keys(data).length > 0 && { data }),
+		};
+	};
+
+	// Handle entries in small groups to stay within the Workers connection limit
+	const results: BatchEmailEntryResult[] = [];
+	for (let i = 0; i < entries.length; i += EMAIL_CONFIG.SEND_CONCURRENCY) {
+		const group = entries.slice(i, i + EMAIL_CONFIG.SEND_CONCURRENCY);
+		results.push(...(await Promise.all(group.map((entry, index) => handleEntry(entry, i + index)))));
+	}
+
+	const accepted = results.filter((r) => r.success).length;
+
+	return {
+		success: accepted > 0,
+		code: accepted > 0 ? 201 : 400,
+		message: `Accepted ${accepted} of ${results.length} entries`,
+		data: {
+			results,
+		},
 	};
 }
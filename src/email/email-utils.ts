@@ -5,7 +5,8 @@
  */
 
 import { EMAIL_CONFIG } from '../config';
-import type { EmailProvider } from '../types';
+import { getEmailAddress } from '../lib/utils';
+import type { BaseEmailRequest, EmailAttachment, EmailProvider, MessageEnvelope, TemplateVariables } from '../types';
 
 /**
  * Parse template variables from a JSON string
@@ -13,7 +14,7 @@ import type { EmailProvider } from '../types';
  * @param variablesJson - JSON string containing template variables
  * @returns Parsed variables object or empty object if invalid
  */
-export function parseTemplateVariables(variablesJson: string | null): Record<string, string | number | boolean> {
+export function parseTemplateVariables(variablesJson: string | null): TemplateVariables {
 	if (!variablesJson) {
 		return {};
 	}
@@ -26,6 +27,77 @@ export function parseTemplateVariables(variablesJson: string | null): Record<str
 	}
 }
 
+/**
+ * Serialize the envelope fields of a request for storage with a message
+ *
+ * @param request - Request carrying envelope fields
+ * @returns JSON string, or null if the request has no envelope fields
+ */
+export function serializeEnvelope(request: Pick<BaseEmailRequest, 'replyTo' | 'cc' | 'bcc' | 'headers'>): string | null {
+	const envelope: MessageEnvelope = {
+		...(request.replyTo && { replyTo: request.replyTo }),
+		...(request.cc?.length && { cc: normalizeRecipients(request.cc) }),
+		...(request.bcc?.length && { bcc: normalizeRecipients(request.bcc) }),
+		...(request.headers && Object.keys(request.headers).length > 0 && { headers: request.headers }),
+	};
+
+	return Object.keys(envelope).length > 0 ? JSON.stringify(envelope) : null;
+}
+
+/**
+ * Parse stored envelope fields from a JSON string
+ *
+ * @param envelopeJson - JSON string containing envelope fields
+ * @returns Parsed envelope or empty object if invalid
+ */
+export function parseEnvelope(envelopeJson: string | null): MessageEnvelope {
+	if (!envelopeJson) {
+		return {};
+	}
+
+	try {
+		return JSON.parse(envelopeJson);
+	} catch (error) {
+		console.error(`Failed to parse message envelope: ${envelopeJson}`, error);
+		return {};
+	}
+}
+
+/**
+ * Parse stored attachments from a JSON string
+ *
+ * @param attachmentsJson - JSON string containing an array of attachments
+ * @returns Parsed attachments or undefined if none or invalid
+ */
+export function parseAttachments(attachmentsJson: string | null): EmailAttachment[] | undefined {
+	if (!attachmentsJson) {
+		return undefined;
+	}
+
+	try {
+		return JSON.parse(attachmentsJson);
+	} catch (error) {
+		console.error(`Failed to parse message attachments`, error);
+		return undefined;
+	}
+}
+
+/**
+ * Get the decoded size of base64 content
+ *
+ * @param content - Base64 encoded content
+ * @returns Size in bytes, or null if the content is not valid base64
+ */
+export function getBase64DecodedSize(content: string): number | null {
+	const normalized = content.replace(/\s/g, '');
+	if (normalized.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+		return null;
+	}
+
+	const padding = normalized.endsWith('==') ? 2 : normalized.endsWith('=') ? 1 : 0;
+	return (normalized.length / 4) * 3 - padding;
+}
+
 /**
  * Validate that an email address is properly formatted
  *
@@ -37,6 +109,18 @@ export function isValidEmail(email: string): boolean {
 	return emailRegex.test(email);
 }
 
+/**
+ * Validate an address field, with or without a display name ("Name <email@example.com>")
+ *
+ * Addresses end up in message headers and SMTP commands, so line breaks are rejected anywhere in them.
+ *
+ * @param address - Address from the request body
+ * @returns true if the address is a string holding a valid email address
+ */
+export function isValidAddress(address: unknown): boolean {
+	return typeof address === 'string' && !/[\r\n]/.test(address) && isValidEmail(getEmailAddress(address));
+}
+
 /**
  * Normalize recipient(s) to an array of email addresses
  *
@@ -48,17 +132,13 @@ export function normalizeRecipients(to: string | string[]): string[] {
 }
 
 /**
- * Get the appropriate email provider, falling back to default if not specified
+ * Get the requested email provider, falling back to default if not specified
  *
  * @param provider - Requested provider or undefined
- * @returns Valid email provider
+ * @returns Email provider name
  */
-export function getProvider(provider?: EmailProvider | string): EmailProvider {
-	// Validate and return provider, or use default
-	if (provider === 'ses' || provider === 'resend' || provider === 'mailersend') {
-		return provider;
-	}
-	return EMAIL_CONFIG.DEFAULT_PROVIDER;
+export function getProvider(provider?: EmailProvider): EmailProvider {
+	return provider || EMAIL_CONFIG.DEFAULT_PROVIDER;
 }
 
 /**
@@ -3,35 +3,75 @@
  */
 
 import { EMAIL_CONFIG } from '../config';
-import { getEmailProvider } from '../lib/email-provider';
+import { normalizeError } from '../errors';
+import InboundService, { isInboundConfigured } from '../inbound/inbound-service';
+import { getEmailProvider, getProviderChain, getProviderName } from '../lib/email-provider';
 import TemplateOptOutService from '../optout/optout-service';
-import type { DirectEmailRequest, EmailResponse, EmailSendParams, TemplateEmailRequest } from '../types';
+import SuppressionService from '../suppression/suppression-service';
+import TrackingService from '../tracking/tracking-service';
+import type { DirectEmailRequest, EmailProvider, EmailResponse, EmailSendParams, EmailSendResponse, TemplateEmailRequest } from '../types';
+import CircuitBreakerService from './circuit-breaker-service';
 import { formatRecipientsForLog, normalizeRecipients } from './email-utils';
-import TemplateService from './templates';
+import MessageLogService from './message-log';
+import TemplateService, { type TemplateData } from './templates';
 
 class EmailService {
 	/**
 	 * Send an email using a template
+	 *
+	 * A template already resolved by the caller is rendered as is instead of being fetched again.
 	 */
-	static async sendTemplateEmail(request: TemplateEmailRequest, env: Env): Promise<EmailResponse> {
-		const { to, from, templateName, templateVariables, provider = EMAIL_CONFIG.DEFAULT_PROVIDER } = request;
+	static async sendTemplateEmail(request: TemplateEmailRequest, env: Env, preloaded?: TemplateData): Promise<EmailSendResponse> {
+		const {
+			to,
+			from,
+			replyTo,
+			cc,
+			bcc,
+			headers,
+			templateName,
+			templateVariables,
+			templateVersionId,
+			attachments,
+			provider = EMAIL_CONFIG.DEFAULT_PROVIDER,
+			messageIds,
+			copyGroup,
+			track,
+		} = request;
 
-		// Convert single recipient to array for consistent handling
-		const recipients = normalizeRecipients(to);
+		// Convert single recipient to array for consistent handling,
+		// leaving out globally suppressed addresses
+		const { recipients, cc: allowedCc, bcc: allowedBcc, skipped } = await this.applySuppressions(to, cc, bcc, env);
+
+		if (skipped.size === recipients.length) {
+			return this.allSuppressedResult(recipients, skipped);
+		}
 
 		// Check if any recipients are blacklisted for this template
-		const OptOutChecks = await Promise.all(recipients.map((email) => TemplateOptOutService.isOptedOut(email, templateName, env)));
+		const optOutChecks = await Promise.all(
+			recipients.map((email, index) => (skipped.has(index) ? null : TemplateOptOutService.isOptedOut(email, templateName, env))),
+		);
 
-		// Filter out blacklisted recipients
-		const validRecipients = recipients.filter((_, index) => !OptOutChecks[index].isOptedOut);
-		const optedOutRecipients = recipients.filter((_, index) => OptOutChecks[index].isOptedOut);
+		// Skip blacklisted recipients
+		const optedOutRecipients = recipients.filter((_, index) => optOutChecks[index]?.isOptedOut);
+		optOutChecks.forEach((check, index) => {
+			if (check?.isOptedOut) {
+				skipped.set(index, {
+					success: false,
+					code: 400,
+					message: `Recipient opted out of template "${templateName}"`,
+					retriable: false,
+				});
+			}
+		});
 
 		// If all recipients are blacklisted, return error
-		if (validRecipients.length === 0) {
+		if (skipped.size === recipients.length) {
 			return {
 				success: false,
 				code: 400,
 				message: `All recipients are blacklisted for template "${templateName}": ${formatRecipientsForLog(optedOutRecipients)}`,
+				recipients: recipients.map((_, index) => skipped.get(index)!),
 			};
 		}
 
@@ -41,9 +81,9 @@ class EmailService {
 		}
 
 		// Process the template
-		const processedTemplate = await TemplateService.getProcessedTemplate(templateName, templateVariables, env);
+		const template = preloaded ?? (await TemplateService.getTemplate(templateName, env, templateVersionId));
 
-		if (!processedTemplate) {
+		if (!template) {
 			return {
 				success: false,
 				code: 404,
@@ -51,25 +91,73 @@ class EmailService {
 			};
 		}
 
+		if (!template.isActive) {
+			return {
+				success: false,
+				code: 400,
+				message: `Template is inactive: ${templateName}`,
+				retriable: false,
+			};
+		}
+
+		let processedTemplate: { subject: string; html: string; text: string };
+		try {
+			processedTemplate = TemplateService.processTemplate(template, templateVariables);
+		} catch (error) {
+			const { message, code, retriable } = normalizeError(error);
+			return {
+				success: false,
+				code,
+				message: `Failed to render template ${templateName}: ${message}`,
+				retriable,
+			};
+		}
+
 		// Send the email with the processed template content
 		return this.sendToProvider(
 			{
-				to: validRecipients,
+				to: recipients,
 				from,
+				replyTo,
+				cc: allowedCc,
+				bcc: allowedBcc,
+				headers,
 				subject: processedTemplate.subject,
 				text: processedTemplate.text,
 				html: processedTemplate.html,
+				attachments,
 				provider,
+				failoverProviders: template.providerOrder,
+				templateName,
+				messageIds,
+				copyGroup,
+				track,
 			},
 			env,
+			skipped,
 		);
 	}
 
 	/**
 	 * Send an email with direct content
 	 */
-	static async sendDirectEmail(request: DirectEmailRequest, env: Env): Promise<EmailResponse> {
-		const { to, from, subject, body, html, provider = EMAIL_CONFIG.DEFAULT_PROVIDER } = request;
+	static async sendDirectEmail(request: DirectEmailRequest, env: Env): Promise<EmailSendResponse> {
+		const {
+			to,
+			from,
+			replyTo,
+			cc,
+			bcc,
+			headers,
+			subject,
+			body,
+			html,
+			attachments,
+			provider = EMAIL_CONFIG.DEFAULT_PROVIDER,
+			messageIds,
+			copyGroup,
+			track,
+		} = request;
 
 		if (!subject || !body) {
 			return {
@@ -79,29 +167,278 @@ class EmailService {
 			};
 		}
 
-		// Convert single recipient to array for consistent handling
-		const recipients = normalizeRecipients(to);
+		// Convert single recipient to array for consistent handling,
+		// leaving out globally suppressed addresses
+		const { recipients, cc: allowedCc, bcc: allowedBcc, skipped } = await this.applySuppressions(to, cc, bcc, env);
+
+		if (skipped.size === recipients.length) {
+			return this.allSuppressedResult(recipients, skipped);
+		}
 
 		// Send the email with direct content
-		return this.sendToProvider({ to: recipients, from, subject, text: body, html, provider }, env);
+		return this.sendToProvider(
+			{
+				to: recipients,
+				from,
+				replyTo,
+				cc: allowedCc,
+				bcc: allowedBcc,
+				headers,
+				subject,
+				text: body,
+				html,
+				attachments,
+				provider,
+				messageIds,
+				copyGroup,
+				track,
+			},
+			env,
+			skipped,
+		);
+	}
+
+	/**
+	 * Find the suppressed addresses among the recipients
+	 *
+	 * Suppressed cc and bcc addresses are dropped silently; suppressed `to`
+	 * recipients get a failed result each, by their position in `to`.
+	 */
+	private static async applySuppressions(
+		to: string | string[],
+		cc: string | string[] | undefined,
+		bcc: string | string[] | undefined,
+		env: Env,
+	): Promise<{ recipients: string[]; cc?: string[]; bcc?: string[]; skipped: Map<number, EmailResponse> }> {
+		const recipients = normalizeRecipients(to);
+		const ccList = cc ? normalizeRecipients(cc) : undefined;
+		const bccList = bcc ? normalizeRecipients(bcc) : undefined;
+
+		const skipped = new Map<number, EmailResponse>();
+		const reasons = await SuppressionService.getSuppressed([...recipients, ...(ccList ?? []), ...(bccList ?? [])], env);
+		if (reasons.size === 0) {
+			return { recipients, cc: ccList, bcc: bccList, skipped };
+		}
+
+		recipients.forEach((recipient, index) => {
+			if (reasons.has(recipient)) {
+				skipped.set(index, {
+					success: false,
+					code: 400,
+					message: `Recipient is suppressed (${reasons.get(recipient)})`,
+					retriable: false,
+				});
+			}
+		});
+		console.warn(`Skipping suppressed addresses: ${formatRecipientsForLog([...reasons.keys()])}`);
+
+		return {
+			recipients,
+			cc: ccList?.filter((email) => !reasons.has(email)),
+			bcc: bccList?.filter((email) => !reasons.has(email)),
+			skipped,
+		};
+	}
+
+	/**
+	 * Result for a send where every recipient is suppressed
+	 */
+	private static allSuppressedResult(recipients: string[], skipped: Map<number, EmailResponse>): EmailSendResponse {
+		return {
+			success: false,
+			code: 400,
+			message: `All recipients are suppressed: ${formatRecipientsForLog(recipients)}`,
+			retriable: false,
+			recipients: recipients.map((_, index) => skipped.get(index)!),
+		};
+	}
+
+	/**
+	 * Send email using the specified provider, with one provider call per recipient
+	 *
+	 * Recipients never see each other's addresses, and one bad address only fails its own send.
+	 * Cc and bcc copies go out once, with the first recipient whose send succeeds; when the
+	 * recipients' messages share a copy group, only the send that claims it carries them.
+	 *
+	 * @param skipped - Results of recipients that are not sent to, by their position in `to`
+	 */
+	private static async sendToProvider(
+		params: EmailSendParams,
+		env: Env,
+		skipped: Map<number, EmailResponse> = new Map(),
+	): Promise<EmailSendResponse> {
+		const recipients: EmailResponse[] = [];
+		const pending = params.to.map((_, index) => index).filter((index) => !skipped.has(index));
+		const withoutCopies: EmailSendParams = { ...params, cc: undefined, bcc: undefined };
+
+		const hasCopies = Boolean(params.cc?.length || params.bcc?.length);
+		let carryCopies = hasCopies && (!params.copyGroup || (await MessageLogService.claimCopies(params.copyGroup, env)));
+
+		// Send one at a time until a send carrying the copies succeeds
+		let next = 0;
+		while (carryCopies && next < pending.length) {
+			const index = pending[next++];
+			recipients[index] = await this.sendToRecipient(index, params, env);
+			carryCopies = !recipients[index].success;
+		}
+
+		// Every send carrying the copies failed: let a later send take them
+		if (carryCopies && params.copyGroup) {
+			await MessageLogService.releaseCopies(params.copyGroup, env);
+		}
+
+		// Send the rest in small groups to stay within the Workers connection limit
+		for (let i = next; i < pending.length; i += EMAIL_CONFIG.SEND_CONCURRENCY) {
+			const group = pending.slice(i, i + EMAIL_CONFIG.SEND_CONCURRENCY);
+			const results = await Promise.all(group.map((index) => this.sendToRecipient(index, withoutCopies, env)));
+			group.forEach((index, position) => {
+				recipients[index] = results[position];
+			});
+		}
+
+		const results = pending.map((index) => recipients[index]);
+		const failed = results.filter((result) => !result.success);
+
+		// Report skipped recipients as permanently failed
+		skipped.forEach((result, index) => {
+			recipients[index] = result;
+		});
+
+		// A single recipient's result is the overall result
+		if (results.length === 1) {
+			return { ...results[0], recipients };
+		}
+
+		if (failed.length === 0) {
+			return {
+				success: true,
+				code: 201,
+				message: `Email sent to ${results.length} recipients`,
+				recipients,
+			};
+		}
+
+		return {
+			success: false,
+			code: failed[0].code,
+			message: `Email failed for ${failed.length} of ${results.length} recipients: ${failed[0].message}`,
+			retriable: failed.some((result) => result.retriable),
+			recipients,
+		};
 	}
 
 	/**
-	 * Send email using the specified provider
+	 * Send email to a single recipient, failing over to the next provider on retriable errors
+	 *
+	 * @param index - Position of the recipient in `to`
 	 */
-	private static async sendToProvider(params: EmailSendParams, env: Env): Promise<EmailResponse> {
+	private static async sendToRecipient(index: number, params: EmailSendParams, env: Env): Promise<EmailResponse> {
+		const recipient = params.to[index];
+
+		// Logged messages get tracking and reply addresses signed for their own message ID
+		const messageId = params.messageIds?.[index];
+		const recipientParams = messageId ? await this.personalize(params, messageId, env) : params;
+
+		// Only providers that support the email as sent, including headers added above
+		const required = { attachments: Boolean(recipientParams.attachments?.length), customHeaders: Boolean(recipientParams.headers) };
+		const providers = getProviderChain(params.provider, params.failoverProviders, required, env);
+
+		let result: EmailResponse | undefined;
+		let deferredUntil: Date | undefined;
+		const circuits = await CircuitBreakerService.getCircuits(providers, env);
+		for (const provider of providers) {
+			// Skip providers whose circuit is open, remembering when the first one reopens
+			const circuit = await CircuitBreakerService.checkCircuit(provider, circuits.get(provider), env);
+			if (!circuit.allowed) {
+				console.warn(`Skipping ${getProviderName(provider)} for ${recipient}: circuit open until ${circuit.retryAt.toISOString()}`);
+				if (!deferredUntil || circuit.retryAt < deferredUntil) {
+					deferredUntil = circuit.retryAt;
+				}
+				continue;
+			}
+
+			if (result) {
+				console.warn(`Failing over to ${getProviderName(provider)} for ${recipient}: ${result.message}`);
+			}
+
+			result = await this.sendWithProvider(recipient, provider, recipientParams, env);
+			await CircuitBreakerService.recordResult(provider, result, env);
+			if (result.success || !result.retriable) {
+				break;
+			}
+		}
+
+		if (!result) {
+			return {
+				success: false,
+				code: 503,
+				message: 'All providers are unavailable (circuit open)',
+				retriable: true,
+				deferredUntil,
+			};
+		}
+
+		return result;
+	}
+
+	/**
+	 * Add the per-message parts of an email: tracking, when enabled, and the
+	 * inbound reply and unsubscribe addresses, when inbound email is configured
+	 *
+	 * A Reply-To or List-Unsubscribe set by the caller is kept.
+	 */
+	private static async personalize(params: EmailSendParams, messageId: number, env: Env): Promise<EmailSendParams> {
+		const html = params.track ? await TrackingService.applyTracking(params.html, messageId, env) : params.html;
+		if (!isInboundConfigured(env)) {
+			return { ...params, html };
+		}
+
+		const replyTo = params.replyTo ?? (await InboundService.getAddress('reply', messageId, env));
+
+		// Unsubscribing opts out of a template, so only template emails offer it
+		const hasUnsubscribe = Object.keys(params.headers ?? {}).some((name) => name.toLowerCase() === 'list-unsubscribe');
+		if (!params.templateName || hasUnsubscribe) {
+			return { ...params, html, replyTo };
+		}
+
+		const unsubscribeAddress = await InboundService.getAddress('unsubscribe', messageId, env);
+		return {
+			...params,
+			html,
+			replyTo,
+			headers: {
+				...params.headers,
+				'List-Unsubscribe': `<mailto:${unsubscribeAddress}?subject=unsubscribe>, <${EMAIL_CONFIG.UNSUBSCRIBE_URL}>`,
+			},
+		};
+	}
+
+	/**
+	 * Send email to a single recipient using one provider
+	 */
+	private static async sendWithProvider(
+		recipient: string,
+		provider: EmailProvider,
+		params: EmailSendParams,
+		env: Env,
+	): Promise<EmailResponse> {
 		try {
 			// Get the appropriate provider function
-			const providerFunction = getEmailProvider(params.provider);
+			const providerFunction = getEmailProvider(provider);
 
 			// Send the email
 			const result = await providerFunction(
 				{
-					to: params.to,
+					to: recipient,
 					from: params.from,
+					replyTo: params.replyTo,
+					cc: params.cc,
+					bcc: params.bcc,
+					headers: params.headers,
 					subject: params.subject,
 					text: params.text,
 					html: params.html,
+					attachments: params.attachments,
 				},
 				env,
 			);
@@ -112,15 +449,19 @@ class EmailService {
 				message: result.message,
 				data: result.data,
 				retriable: result.retriable ?? false,
+				...(result.retryAfter !== undefined && { retryAfter: result.retryAfter }),
+				provider,
 			};
 		} catch (error) {
-			const errorMessage = error instanceof Error ? error.message : String(error);
-			console.error(`Error sending email via ${params.provider}: ${errorMessage}`);
+			// Configuration errors are not retriable, unexpected errors are
+			const { code, message, retriable } = normalizeError(error);
+			console.error(`Error sending email via ${provider}: ${message}`);
 			return {
 				success: false,
-				code: 500,
-				message: `Error sending email: ${errorMessage}`,
-				retriable: true,
+				code,
+				message: `Error sending email: ${message}`,
+				retriable,
+				provider,
 			};
 		}
 	}
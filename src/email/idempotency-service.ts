@@ -0,0 +1,203 @@
+/**
+ * Idempotency Service
+ *
+ * Stores idempotency keys with a hash of the request they were first used with
+ * and the response that was returned, so retried requests can be replayed safely.
+ * Keys are scoped to the caller, so one caller's key never replays another's response.
+ */
+
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+import { IDEMPOTENCY_CONFIG } from '../config';
+import { getPrismaClient } from '../lib/prisma-client';
+
+/**
+ * Outcome of claiming an idempotency key; a new claim carries the end of its lease,
+ * which identifies the claim when its response is stored or it is released
+ */
+export type IdempotencyClaim =
+	| { status: 'new'; lease: Date }
+	| { status: 'replay'; statusCode: ContentfulStatusCode; response: string }
+	| { status: 'mismatch' }
+	| { status: 'in_progress' };
+
+/**
+ * Check that a response status can be stored and replayed with its body
+ */
+export function isReplayableStatus(statusCode: number): statusCode is ContentfulStatusCode {
+	return statusCode >= 200 && statusCode < 600 && ![204, 205, 304].includes(statusCode);
+}
+
+class IdempotencyService {
+	/**
+	 * Hash a request so repeated keys can be matched against the original request
+	 *
+	 * @param request - Canonical request representation (method, path and body)
+	 * @returns Hex-encoded SHA-256 digest
+	 */
+	static async hashRequest(request: string): Promise<string> {
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(request));
+		return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+	}
+
+	/**
+	 * Get the scope of a caller's keys from the API key it authenticated with
+	 *
+	 * @param apiKey - API key of the caller
+	 * @returns Hex-encoded SHA-256 digest, so the API key itself is not stored
+	 */
+	static async getScope(apiKey: string): Promise<string> {
+		return this.hashRequest(apiKey);
+	}
+
+	/**
+	 * Claim a key for a request, or report how a previous use of the key should be handled
+	 *
+	 * The key row is inserted before the request is processed, so concurrent requests
+	 * with the same key are rejected instead of both being processed. A request that
+	 * never stores its response, because it crashed or timed out, holds the key only
+	 * until its lease ends; a retry of the same request then takes the key over.
+	 *
+	 * @param scope - Scope of the caller's keys
+	 * @param key - Client-supplied idempotency key
+	 * @param requestHash - Hash of the current request
+	 * @param env - Environment with DB binding
+	 * @returns The claim outcome
+	 */
+	static async claim(scope: string, key: string, requestHash: string, env: Env): Promise<IdempotencyClaim> {
+		const prisma = getPrismaClient(env);
+
+		const existing = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+		const now = new Date();
+		const lease = new Date(now.getTime() + IDEMPOTENCY_CONFIG.LEASE_SECONDS * 1000);
+
+		if (existing && existing.expiresAt <= now) {
+			// Past the retention window, the key can be reused
+			await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+		} else if (
+			existing &&
+			existing.response === null &&
+			existing.requestHash === requestHash &&
+			(existing.leaseExpiresAt === null || existing.leaseExpiresAt <= now)
+		) {
+			// The request holding the key never finished; keys claimed before leases were stored have none
+			const { count } = await prisma.idempotencyKey.updateMany({
+				where: { id: existing.id, response: null, leaseExpiresAt: existing.leaseExpiresAt },
+				data: { leaseExpiresAt: lease },
+			});
+			return count > 0 ? { status: 'new', lease } : { status: 'in_progress' };
+		} else if (existing) {
+			return this.toClaim(existing, requestHash);
+		}
+
+		const expiresAt = new Date(now.getTime() + IDEMPOTENCY_CONFIG.RETENTION_HOURS * 60 * 60 * 1000);
+
+		try {
+			await prisma.idempotencyKey.create({
+				data: { scope, key, requestHash, expiresAt, leaseExpiresAt: lease },
+			});
+			return { status: 'new', lease };
+		} catch (error) {
+			// Another request claimed the key between the lookup and the insert
+			const winner = await prisma.idempotencyKey.findUnique({ where: { scope_key: { scope, key } } });
+			if (!winner) {
+				throw error;
+			}
+			return this.toClaim(winner, requestHash);
+		}
+	}
+
+	/**
+	 * Store the response for a claimed key so later requests replay it
+	 *
+	 * Nothing is stored if another request took the key over after the lease ended.
+	 *
+	 * @param scope - Scope of the caller's keys
+	 * @param key - Idempotency key
+	 * @param lease - Lease of the claim
+	 * @param statusCode - HTTP status code of the response
+	 * @param response - Response body
+	 * @param env - Environment with DB binding
+	 */
+	static async complete(
+		scope: string,
+		key: string,
+		lease: Date,
+		statusCode: ContentfulStatusCode,
+		response: string,
+		env: Env,
+	): Promise<void> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			await prisma.idempotencyKey.updateMany({
+				where: { scope, key, leaseExpiresAt: lease, response: null },
+				data: { statusCode, response, leaseExpiresAt: null },
+			});
+		} catch (error) {
+			console.error(`Error storing response for idempotency key ${key}: ${error}`);
+		}
+	}
+
+	/**
+	 * Release a claimed key without a response, so the client can retry with it
+	 *
+	 * @param scope - Scope of the caller's keys
+	 * @param key - Idempotency key
+	 * @param lease - Lease of the claim, so a claim taken over by another request is kept
+	 * @param env - Environment with DB binding
+	 */
+	static async release(scope: string, key: string, lease: Date, env: Env): Promise<void> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			await prisma.idempotencyKey.deleteMany({ where: { scope, key, leaseExpiresAt: lease, response: null } });
+		} catch (error) {
+			console.error(`Error releasing idempotency key ${key}: ${error}`);
+		}
+	}
+
+	/**
+	 * Delete keys past their retention window
+	 *
+	 * @param env - Environment with DB binding
+	 * @returns Number of deleted keys
+	 */
+	static async purgeExpired(env: Env): Promise<number> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			const result = await prisma.idempotencyKey.deleteMany({
+				where: { expiresAt: { lte: new Date() } },
+			});
+			return result.count;
+		} catch (error) {
+			console.error(`Error purging expired idempotency keys: ${error}`);
+			return 0;
+		}
+	}
+
+	/**
+	 * Map a stored key to a claim outcome for the current request
+	 */
+	private static toClaim(
+		stored: { requestHash: string; statusCode: number | null; response: string | null },
+		requestHash: string,
+	): IdempotencyClaim {
+		if (stored.requestHash !== requestHash) {
+			return { status: 'mismatch' };
+		}
+
+		if (stored.response === null || stored.statusCode === null) {
+			return { status: 'in_progress' };
+		}
+
+		if (!isReplayableStatus(stored.statusCode)) {
+			throw new Error(`Stored idempotent response has status ${stored.statusCode}, which cannot carry a body`);
+		}
+
+		return { status: 'replay', statusCode: stored.statusCode, response: stored.response };
+	}
+}
+
+export default IdempotencyService;
@@ -1,12 +1,14 @@
 import { Hono } from 'hono';
 
-import type { SendEmailRequestBody } from '../types';
-import { handleDirectEmail, handleTemplateEmail } from './email-handler';
+import { idempotencyHandler } from '../middleware/idempotency-handler';
+import type { BatchEmailRequestBody, MessageUpdateRequestBody, SendEmailRequestBody } from '../types';
+import { handleBatchEmail, handleDirectEmail, handleTemplateEmail } from './email-handler';
+import { handleCancelMessage, handleGetMessage, handleListMessages, handleListReplies, handleUpdateMessage } from './message-handler';
 
 const router = new Hono<{ Bindings: Env }>().basePath('/emails');
 
 // Send email
-router.post('/', async (c) => {
+router.post('/', idempotencyHandler, async (c) => {
 	try {
 		// Parse the request body
 		const body: SendEmailRequestBody = await c.req.json();
@@ -47,4 +49,70 @@ router.post('/', async (c) => {
 	}
 });
 
+// Send a template to many recipients, each with its own variables
+router.post('/batch', idempotencyHandler, async (c) => {
+	try {
+		const body: BatchEmailRequestBody = await c.req.json();
+
+		const result = await handleBatchEmail(body, c.env, c.executionCtx);
+
+		const statusCode = result.code >= 200 && result.code < 600 ? result.code : 500;
+		return c.json(result, statusCode as any);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		return c.json(
+			{
+				success: false,
+				code: 500,
+				message: `Error processing batch request: ${errorMessage}`,
+			},
+			{ status: 500 },
+		);
+	}
+});
+
+// List messages with filters and cursor pagination
+router.get('/', async (c) => {
+	const result = await handleListMessages(c.req.query(), c.env);
+	return c.json(result, result.code as any);
+});
+
+// Get the delivery state of a single message
+router.get('/:id', async (c) => {
+	const result = await handleGetMessage(c.req.param('id'), c.env);
+	return c.json(result, result.code as any);
+});
+
+// List the replies received to a message
+router.get('/:id/replies', async (c) => {
+	const result = await handleListReplies(c.req.param('id'), c.env);
+	return c.json(result, result.code as any);
+});
+
+// Reschedule a message or change its template variables before it is sent
+router.patch('/:id', async (c) => {
+	let body: MessageUpdateRequestBody;
+	try {
+		body = await c.req.json();
+	} catch {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: 'Invalid JSON body',
+			},
+			{ status: 400 },
+		);
+	}
+
+	const result = await handleUpdateMessage(c.req.param('id'), body, c.env);
+	return c.json(result, result.code as any);
+});
+
+// Cancel a scheduled message before its send time
+router.delete('/:id', async (c) => {
+	const result = await handleCancelMessage(c.req.param('id'), c.env);
+	return c.json(result, result.code as any);
+});
+
 export { router };
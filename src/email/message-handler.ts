@@ -0,0 +1,381 @@
+/**
+ * Message Handler
+ *
+ * Handles business logic for looking up logged messages and their delivery state.
+ */
+
+import { MessageStatus } from '@prisma/client';
+
+import { PAGINATION_CONFIG } from '../config';
+import InboundService from '../inbound/inbound-service';
+import type { ApiResponse } from '../middleware/response-handler';
+import type { MessageListFilters, MessageUpdateRequestBody } from '../types';
+import { validateTemplateVariables } from './email-handler';
+import { isFutureDate, parseScheduledDate } from './email-utils';
+import MessageLogService from './message-log';
+import type { MessageWithRelations } from './scheduler-service';
+import SchedulerService, { PENDING_STATUSES } from './scheduler-service';
+import TemplateService from './templates';
+
+/**
+ * Format a message for API responses
+ */
+function formatMessage(message: MessageWithRelations) {
+	return {
+		id: message.id,
+		status: message.status,
+		attempts: message.attempts,
+		maxAttempts: message.maxAttempts,
+		lastError: message.lastError,
+		provider: message.provider,
+		externalId: message.externalId,
+		sender: message.sender,
+		scheduledAt: message.scheduledAt,
+		nextRetryAt: message.nextRetryAt,
+		createdAt: message.createdAt,
+		sentAt: message.sentAt,
+		contact: {
+			emailAddress: message.contact.emailAddress,
+			displayName: message.contact.displayName,
+		},
+		template: message.template
+			? {
+					key: message.template.key,
+					displayName: message.template.displayName,
+				}
+			: null,
+	};
+}
+
+/**
+ * Parse a positive integer message ID from a route parameter
+ */
+function parseMessageId(id: string): number | null {
+	const messageId = Number(id);
+	return Number.isInteger(messageId) && messageId > 0 ? messageId : null;
+}
+
+/**
+ * Parse list filters from query parameters
+ */
+function parseListFilters(query: Record<string, string | undefined>): { filters?: MessageListFilters; error?: string } {
+	const { status, template, recipient, provider, createdAfter, createdBefore, cursor, limit } = query;
+
+	const statuses = status ? status.split(',').map((s) => s.trim().toUpperCase()) : undefined;
+	const validStatuses = Object.values(MessageStatus) as string[];
+	const invalidStatus = statuses?.find((s) => !validStatuses.includes(s));
+	if (invalidStatus) {
+		return { error: `Invalid status: ${invalidStatus}. Use one of ${validStatuses.join(', ')}` };
+	}
+
+	const dates: Record<string, Date | undefined> = {};
+	for (const [name, value] of Object.entries({ createdAfter, createdBefore })) {
+		if (!value) {
+			continue;
+		}
+		const date = new Date(value);
+		if (isNaN(date.getTime())) {
+			return { error: `Invalid ${name} date format. Use ISO 8601 format.` };
+		}
+		dates[name] = date;
+	}
+
+	const parsedCursor = cursor ? parseMessageId(cursor) : undefined;
+	if (parsedCursor === null) {
+		return { error: 'Invalid cursor' };
+	}
+
+	const parsedLimit = limit ? Number(limit) : PAGINATION_CONFIG.DEFAULT_LIMIT;
+	if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > PAGINATION_CONFIG.MAX_LIMIT) {
+		return { error: `limit must be an integer between 1 and ${PAGINATION_CONFIG.MAX_LIMIT}` };
+	}
+
+	return {
+		filters: {
+			status: statuses,
+			templateKey: template,
+			recipient,
+			provider,
+			createdAfter: dates.createdAfter,
+			createdBefore: dates.createdBefore,
+			cursor: parsedCursor,
+			limit: parsedLimit,
+		},
+	};
+}
+
+/**
+ * Handle looking up a single message by ID
+ */
+export async function handleGetMessage(id: string, env: Env): Promise<ApiResponse> {
+	const messageId = parseMessageId(id);
+	if (!messageId) {
+		return {
+			success: false,
+			code: 400,
+			message: `Invalid message ID: ${id}`,
+		};
+	}
+
+	const message = await SchedulerService.getMessage(messageId, env);
+	if (!message) {
+		return {
+			success: false,
+			code: 404,
+			message: `Message not found: ${id}`,
+		};
+	}
+
+	return {
+		success: true,
+		code: 200,
+		message: 'Message found',
+		data: formatMessage(message),
+	};
+}
+
+/**
+ * Handle listing the replies received to a message
+ */
+export async function handleListReplies(id: string, env: Env): Promise<ApiResponse> {
+	const messageId = parseMessageId(id);
+	if (!messageId) {
+		return {
+			success: false,
+			code: 400,
+			message: `Invalid message ID: ${id}`,
+		};
+	}
+
+	const message = await SchedulerService.getMessage(messageId, env);
+	if (!message) {
+		return {
+			success: false,
+			code: 404,
+			message: `Message not found: ${id}`,
+		};
+	}
+
+	const replies = await InboundService.listReplies(messageId, env);
+
+	return {
+		success: true,
+		code: 200,
+		message: `Found ${replies.length} replies`,
+		data: replies,
+	};
+}
+
+/**
+ * Handle listing messages with filters and cursor pagination
+ */
+export async function handleListMessages(query: Record<string, string | undefined>, env: Env): Promise<ApiResponse> {
+	const { filters, error } = parseListFilters(query);
+	if (!filters) {
+		return {
+			success: false,
+			code: 400,
+			message: error!,
+		};
+	}
+
+	const { messages, nextCursor } = await MessageLogService.listMessages(filters, env);
+
+	return {
+		success: true,
+		code: 200,
+		message: `Found ${messages.length} messages`,
+		data: {
+			messages: messages.map(formatMessage),
+			nextCursor,
+		},
+	};
+}
+
+/**
+ * Reject changes to a message that is not waiting for a later send time
+ *
+ * Scheduled messages and queued messages deferred to a later time (e.g. while every
+ * provider's circuit is open) can be changed; pending messages that are due may
+ * already be on their way to the provider.
+ */
+function checkScheduled(message: MessageWithRelations): ApiResponse | null {
+	const pending = PENDING_STATUSES.includes(message.status);
+	if (pending && message.scheduledAt && message.scheduledAt > new Date()) {
+		return null;
+	}
+
+	return {
+		success: false,
+		code: 409,
+		message: pending
+			? `Message ${message.id} is due for sending and can no longer be changed`
+			: `Message ${message.id} is ${message.status} and can no longer be changed`,
+	};
+}
+
+/**
+ * Handle cancelling a scheduled message before its send time
+ */
+export async function handleCancelMessage(id: string, env: Env): Promise<ApiResponse> {
+	const messageId = parseMessageId(id);
+	if (!messageId) {
+		return {
+			success: false,
+			code: 400,
+			message: `Invalid message ID: ${id}`,
+		};
+	}
+
+	const message = await SchedulerService.getMessage(messageId, env);
+	if (!message) {
+		return {
+			success: false,
+			code: 404,
+			message: `Message not found: ${id}`,
+		};
+	}
+
+	const conflict = checkScheduled(message);
+	if (conflict) {
+		return conflict;
+	}
+
+	// The message may have been picked up since it was read
+	const cancelled = await SchedulerService.updateScheduledMessage(messageId, { status: 'CANCELLED' }, env);
+	if (!cancelled) {
+		return {
+			success: false,
+			code: 409,
+			message: `Message ${messageId} was picked up for sending and can no longer be cancelled`,
+		};
+	}
+
+	return {
+		success: true,
+		code: 200,
+		message: 'Message cancelled',
+		data: formatMessage({ ...message, status: 'CANCELLED' }),
+	};
+}
+
+/**
+ * Handle rescheduling a message or changing its template variables before it is sent
+ */
+export async function handleUpdateMessage(id: string, body: MessageUpdateRequestBody, env: Env): Promise<ApiResponse> {
+	const messageId = parseMessageId(id);
+	if (!messageId) {
+		return {
+			success: false,
+			code: 400,
+			message: `Invalid message ID: ${id}`,
+		};
+	}
+
+	const { sendAt, templateVariables } = body;
+	if (sendAt === undefined && templateVariables === undefined) {
+		return {
+			success: false,
+			code: 400,
+			message: 'Either sendAt or templateVariables must be provided',
+		};
+	}
+
+	let scheduledAt: Date | undefined;
+	if (sendAt !== undefined) {
+		const parsed = parseScheduledDate(sendAt);
+		if (!parsed) {
+			return {
+				success: false,
+				code: 400,
+				message: 'Invalid sendAt date format. Use ISO 8601 format.',
+			};
+		}
+		if (!isFutureDate(parsed)) {
+			return {
+				success: false,
+				code: 400,
+				message: 'sendAt must be a future date',
+			};
+		}
+		scheduledAt = parsed;
+	}
+
+	if (
+		templateVariables !== undefined &&
+		(typeof templateVariables !== 'object' || templateVariables === null || Array.isArray(templateVariables))
+	) {
+		return {
+			success: false,
+			code: 400,
+			message: 'templateVariables must be an object',
+		};
+	}
+
+	const message = await SchedulerService.getMessage(messageId, env);
+	if (!message) {
+		return {
+			success: false,
+			code: 404,
+			message: `Message not found: ${id}`,
+		};
+	}
+
+	if (templateVariables !== undefined && !message.template) {
+		return {
+			success: false,
+			code: 400,
+			message: `Message ${messageId} is not a template email`,
+		};
+	}
+
+	const conflict = checkScheduled(message);
+	if (conflict) {
+		return conflict;
+	}
+
+	// Check the new variables against the declarations of the version the message will render
+	if (templateVariables !== undefined) {
+		const versionId = message.renderLatest ? undefined : (message.templateVersionId ?? undefined);
+		const template = await TemplateService.getTemplate(message.template!.key, env, versionId);
+		if (!template) {
+			return {
+				success: false,
+				code: 404,
+				message: `Template not found: ${message.template!.key}`,
+			};
+		}
+
+		const variableValidation = validateTemplateVariables(templateVariables, template);
+		if (!variableValidation.valid) {
+			return {
+				success: false,
+				code: variableValidation.statusCode!,
+				message: variableValidation.error!,
+				data: variableValidation.data,
+			};
+		}
+	}
+
+	const data = {
+		...(scheduledAt && { scheduledAt }),
+		...(templateVariables && { variables: JSON.stringify(templateVariables) }),
+	};
+
+	// The message may have been picked up since it was read
+	const updated = await SchedulerService.updateScheduledMessage(messageId, data, env);
+	if (!updated) {
+		return {
+			success: false,
+			code: 409,
+			message: `Message ${messageId} was picked up for sending and can no longer be changed`,
+		};
+	}
+
+	return {
+		success: true,
+		code: 200,
+		message: 'Message updated',
+		data: formatMessage({ ...message, ...data }),
+	};
+}
@@ -2,8 +2,18 @@ import { type Message as MessageType } from '@prisma/client';
 
 import { getPrismaClient } from '../lib/prisma-client';
 import { getEmail } from '../lib/utils';
-import type { DirectEmailRequest, EmailResponse, TemplateEmailRequest } from '../types';
-import TemplateService from './templates';
+import type { DirectEmailRequest, EmailResponse, MessageListFilters, TemplateEmailRequest } from '../types';
+import { serializeEnvelope } from './email-utils';
+import type { MessageWithRelations } from './scheduler-service';
+import TemplateService, { type TemplateData } from './templates';
+
+/**
+ * New copy group for a request with cc or bcc copies to more than one recipient
+ */
+function getCopyGroup(request: Pick<DirectEmailRequest, 'to' | 'cc' | 'bcc'>): string | undefined {
+	const hasCopies = Boolean(request.cc?.length || request.bcc?.length);
+	return hasCopies && Array.isArray(request.to) && request.to.length > 1 ? crypto.randomUUID() : undefined;
+}
 
 class MessageLogService {
 	/**
@@ -17,6 +27,7 @@ class MessageLogService {
 			attempts?: number;
 			nextRetryAt?: Date;
 			provider?: string;
+			templateVersionId?: number; // Template version rendered for this attempt
 		},
 	): Promise<void> {
 		const prisma = getPrismaClient(env);
@@ -24,8 +35,20 @@ class MessageLogService {
 		const status = result.success ? 'SENT' : 'FAILED';
 		const { id: externalId } = result.data ? result.data : {};
 		const messageId = typeof id === 'string' ? parseInt(id, 10) : id;
+		// The provider that handled the final attempt, after any failover
+		const provider = result.provider ?? options?.provider;
 
 		try {
+			// Nothing was sent because every provider's circuit was open: queue the message
+			// again for when the first circuit reopens, without counting an attempt
+			if (result.deferredUntil) {
+				await prisma.message.update({
+					where: { id: messageId },
+					data: { status: 'QUEUED', scheduledAt: result.deferredUntil, lastError: result.message },
+				});
+				return;
+			}
+
 			await prisma.message.update({
 				where: { id: messageId },
 				data: {
@@ -34,7 +57,8 @@ class MessageLogService {
 					...(status === 'SENT' ? { sentAt: new Date() } : { errorDetails: result.message }),
 					...(options?.attempts !== undefined && { attempts: options.attempts }),
 					...(options?.nextRetryAt && { nextRetryAt: options.nextRetryAt }),
-					...(options?.provider && { provider: options.provider }),
+					...(provider && { provider }),
+					...(options?.templateVersionId && { templateVersionId: options.templateVersionId }),
 					...(result.message && { lastError: result.message }),
 				},
 			});
@@ -43,8 +67,99 @@ class MessageLogService {
 		}
 	}
 
+	/**
+	 * Claim the cc and bcc copies of a request for the message about to be sent
+	 *
+	 * The claim is a conditional update over the whole group, so only one send gets it.
+	 * If the claim cannot be made the copies are sent anyway, as a duplicate copy is
+	 * better than a lost one.
+	 *
+	 * @param copyGroup - Copy group shared by the request's messages
+	 * @param env - Environment with DB binding
+	 * @returns Whether the copies should go out with this send
+	 */
+	static async claimCopies(copyGroup: string, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			const { count } = await prisma.message.updateMany({
+				where: { copyGroup, copiesSent: false },
+				data: { copiesSent: true },
+			});
+			return count > 0;
+		} catch (error) {
+			console.error(`Error claiming copies for group ${copyGroup}: ${error}`);
+			return true;
+		}
+	}
+
+	/**
+	 * Release claimed copies after the send carrying them failed, so the next send takes them
+	 *
+	 * @param copyGroup - Copy group shared by the request's messages
+	 * @param env - Environment with DB binding
+	 */
+	static async releaseCopies(copyGroup: string, env: Env): Promise<void> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			await prisma.message.updateMany({ where: { copyGroup }, data: { copiesSent: false } });
+		} catch (error) {
+			console.error(`Error releasing copies for group ${copyGroup}: ${error}`);
+		}
+	}
+
+	/**
+	 * List logged messages, newest first, with cursor pagination
+	 *
+	 * @param filters - Filters and pagination options
+	 * @param env - Environment with DB binding
+	 * @returns A page of messages and the cursor for the next page, if any
+	 */
+	static async listMessages(
+		filters: MessageListFilters,
+		env: Env,
+	): Promise<{ messages: MessageWithRelations[]; nextCursor: number | null }> {
+		const prisma = getPrismaClient(env);
+		const { status, templateKey, recipient, provider, createdAfter, createdBefore, cursor, limit } = filters;
+
+		// Fetch one extra row to know whether another page exists
+		const messages = await prisma.message.findMany({
+			where: {
+				...(status && { status: { in: status as MessageType['status'][] } }),
+				...(templateKey && { template: { key: templateKey } }),
+				...(recipient && { contact: { emailAddress: recipient } }),
+				...(provider && { provider }),
+				...((createdAfter || createdBefore) && {
+					createdAt: {
+						...(createdAfter && { gte: createdAfter }),
+						...(createdBefore && { lt: createdBefore }),
+					},
+				}),
+				...(cursor !== undefined && { id: { lt: cursor } }),
+			},
+			take: limit + 1,
+			orderBy: {
+				id: 'desc',
+			},
+			include: {
+				contact: true,
+				template: true,
+			},
+		});
+
+		const hasMore = messages.length > limit;
+		const page = hasMore ? messages.slice(0, limit) : messages;
+
+		return {
+			messages: page,
+			nextCursor: hasMore ? page[page.length - 1].id : null,
+		};
+	}
+
 	/**
 	 * Log a template email to the database
+	 * Returns one message per recipient, in the same order as `to`
 	 */
 	static async logTemplateEmail(
 		request: TemplateEmailRequest,
@@ -53,13 +168,16 @@ class MessageLogService {
 			externalId?: string;
 			scheduledAt?: Date;
 			provider?: string;
+			tracked?: boolean;
+			renderLatest?: boolean;
+			template?: TemplateData; // Already resolved template of the version to render
 		},
 	): Promise<MessageType[]> {
-		const { to, templateName, templateVariables } = request;
+		const { to, from, templateName, templateVariables, attachments } = request;
 		const prisma = getPrismaClient(env);
 
-		// Get template ID
-		const template = await TemplateService.getTemplate(templateName, env);
+		// Get template ID and the version to render
+		const template = options?.template ?? (await TemplateService.getTemplate(templateName, env, request.templateVersionId));
 		if (!template) {
 			console.error(`Failed to log message: Template not found: ${templateName}`);
 			return [];
@@ -67,6 +185,9 @@ class MessageLogService {
 
 		// Convert single recipient to array for consistent handling
 		const recipients = Array.isArray(to) ? to : [to];
+		// Every message stores the copies; they go out once, with whichever is sent first
+		const envelope = serializeEnvelope(request);
+		const copyGroup = getCopyGroup(request);
 
 		// Determine status based on scheduling
 		const status = options?.scheduledAt && options.scheduledAt > new Date() ? 'SCHEDULED' : 'QUEUED';
@@ -88,11 +209,18 @@ class MessageLogService {
 						data: {
 							contactId: contact.id,
 							templateId: template.id,
+							...(template.versionId && { templateVersionId: template.versionId }),
+							...(options?.renderLatest && { renderLatest: true }),
 							status,
+							sender: from,
+							envelope,
+							...(copyGroup && { copyGroup }),
+							...(attachments?.length && { attachments: JSON.stringify(attachments) }),
 							variables: JSON.stringify(templateVariables),
 							...(options?.externalId && { externalId: options.externalId }),
 							...(options?.scheduledAt && { scheduledAt: options.scheduledAt }),
 							...(options?.provider && { provider: options.provider }),
+							...(options?.tracked && { tracked: true }),
 						},
 					});
 				}),
@@ -107,21 +235,26 @@ class MessageLogService {
 
 	/**
 	 * Log a direct email to the database
+	 * Returns one message per recipient, in the same order as `to`
 	 */
 	static async logDirectEmail(
-		request: Omit<DirectEmailRequest, 'body' | 'html'>,
+		request: DirectEmailRequest,
 		env: Env,
 		options?: {
 			externalId?: string;
 			scheduledAt?: Date;
 			provider?: string;
+			tracked?: boolean;
 		},
 	): Promise<MessageType[]> {
-		const { to } = request;
+		const { to, from, subject, body, html, attachments } = request;
 		const prisma = getPrismaClient(env);
 
 		// Convert single recipient to array for consistent handling
 		const recipients = Array.isArray(to) ? to : [to];
+		// Every message stores the copies; they go out once, with whichever is sent first
+		const envelope = serializeEnvelope(request);
+		const copyGroup = getCopyGroup(request);
 
 		// Determine status based on scheduling
 		const status = options?.scheduledAt && options.scheduledAt > new Date() ? 'SCHEDULED' : 'QUEUED';
@@ -138,14 +271,22 @@ class MessageLogService {
 						create: { emailAddress, displayName },
 					});
 
-					// Create message log (without template)
+					// Create message log with the content, so it can be sent later
 					return await prisma.message.create({
 						data: {
 							contactId: contact.id,
 							status,
+							sender: from,
+							envelope,
+							...(copyGroup && { copyGroup }),
+							...(attachments?.length && { attachments: JSON.stringify(attachments) }),
+							subject,
+							bodyText: body,
+							bodyHtml: html,
 							...(options?.externalId && { externalId: options.externalId }),
 							...(options?.scheduledAt && { scheduledAt: options.scheduledAt }),
 							...(options?.provider && { provider: options.provider }),
+							...(options?.tracked && { tracked: true }),
 						},
 					});
 				}),
@@ -162,12 +303,14 @@ class MessageLogService {
 	 * Log a message to the database - facades both template and direct emails
 	 */
 	static async logMessage(
-		request: TemplateEmailRequest | Omit<DirectEmailRequest, 'body' | 'html'>,
+		request: TemplateEmailRequest | DirectEmailRequest,
 		env: Env,
 		options?: {
 			externalId?: string;
 			scheduledAt?: Date;
 			provider?: string;
+			tracked?: boolean;
+			renderLatest?: boolean;
 		},
 	): Promise<MessageType[]> {
 		// Determine if this is a template email by checking for templateName property
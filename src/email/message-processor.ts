@@ -6,8 +6,8 @@
  */
 
 import { EMAIL_CONFIG } from '../config';
-import type { EmailProvider } from '../types';
-import { getProvider, parseTemplateVariables } from './email-utils';
+import type { EmailProvider, EmailResponse } from '../types';
+import { getProvider, parseAttachments, parseEnvelope, parseTemplateVariables } from './email-utils';
 import EmailService from './emails';
 import MessageLogService from './message-log';
 import { calculateNextRetryTime, shouldRetry } from './retry-service';
@@ -41,9 +41,8 @@ export async function processMessage(message: MessageWithRelations, env: Env, _c
 			// Template-based email
 			await processTemplateMessage(message, provider, env);
 		} else {
-			// Direct email - not supported for retries yet
-			console.warn(`Message ${messageId} is a direct email without template, cannot retry`);
-			return;
+			// Direct email with stored content
+			await processDirectMessage(message, provider, env);
 		}
 	} catch (error) {
 		const errorMessage = error instanceof Error ? error.message : String(error);
@@ -70,10 +69,14 @@ async function processTemplateMessage(message: MessageWithRelations, provider: E
 	// Parse template variables
 	const variables = parseTemplateVariables(message.variables || null);
 
-	// Get processed template
-	const processedTemplate = await TemplateService.getProcessedTemplate(message.template.key, variables, env);
+	// Render the version recorded when the message was logged, unless the
+	// caller asked for whichever version is published at send time
+	const versionId = message.renderLatest ? undefined : (message.templateVersionId ?? undefined);
+
+	// Get the template content to render
+	const template = await TemplateService.getTemplate(message.template.key, env, versionId);
 
-	if (!processedTemplate) {
+	if (!template) {
 		console.error(`Template not found for message ${messageId}: ${message.template.key}`);
 		await MessageLogService.updateMessageLog(
 			messageId,
@@ -85,27 +88,127 @@ async function processTemplateMessage(message: MessageWithRelations, provider: E
 	}
 
 	// Build email request
+	// Reply-to, cc, bcc and headers stored with the original request; messages logged
+	// before the sender was stored have none, and keep going out from the default sender
+	const envelope = parseEnvelope(message.envelope);
 	const emailRequest = {
 		to: message.contact.emailAddress,
-		from: EMAIL_CONFIG.DEFAULT_SENDER,
+		from: message.sender ?? EMAIL_CONFIG.DEFAULT_SENDER,
+		...envelope,
+		attachments: parseAttachments(message.attachments),
 		templateName: message.template.key,
 		templateVariables: variables,
+		templateVersionId: template.versionId ?? undefined,
 		provider,
+		messageIds: [message.id],
+		copyGroup: message.copyGroup ?? undefined,
+		track: message.tracked,
 	};
 
 	// Send the email
 	const result = await EmailService.sendTemplateEmail(emailRequest, env);
 
+	await recordResult(message, result, provider, env, template.versionId ?? undefined);
+}
+
+/**
+ * Process a direct (non-template) email message from its stored content
+ *
+ * @param message - The message to process
+ * @param provider - Email provider to use
+ * @param env - Cloudflare environment bindings
+ */
+async function processDirectMessage(message: MessageWithRelations, provider: EmailProvider, env: Env): Promise<void> {
+	const messageId = typeof message.id === 'string' ? message.id : String(message.id);
+
+	// Messages logged before content was stored cannot be sent
+	if (!message.subject || !message.bodyText) {
+		console.error(`Direct message ${messageId} has no stored content`);
+		await MessageLogService.updateMessageLog(
+			messageId,
+			{ success: false, code: 400, message: 'Direct email content missing', retriable: false },
+			env,
+			{ attempts: message.attempts + 1 },
+		);
+		return;
+	}
+
+	// Build email request
+	// Reply-to, cc, bcc and headers stored with the original request; messages logged
+	// before the sender was stored have none, and keep going out from the default sender
+	const envelope = parseEnvelope(message.envelope);
+	const emailRequest = {
+		to: message.contact.emailAddress,
+		from: message.sender ?? EMAIL_CONFIG.DEFAULT_SENDER,
+		...envelope,
+		attachments: parseAttachments(message.attachments),
+		subject: message.subject,
+		body: message.bodyText,
+		html: message.bodyHtml ?? '',
+		provider,
+		messageIds: [message.id],
+		copyGroup: message.copyGroup ?? undefined,
+		track: message.tracked,
+	};
+
+	// Send the email
+	const result = await EmailService.sendDirectEmail(emailRequest, env);
+
+	await recordResult(message, result, provider, env);
+}
+
+/**
+ * Get the next retry time, waiting at least as long as the provider asked to
+ *
+ * @param attempts - Number of attempts made so far
+ * @param retryAfter - Seconds from the provider's Retry-After header, if any
+ */
+function getNextRetryTime(attempts: number, retryAfter: number | undefined): Date {
+	const backoff = calculateNextRetryTime(attempts);
+	if (retryAfter === undefined) {
+		return backoff;
+	}
+
+	const requested = new Date(Date.now() + retryAfter * 1000);
+	return requested > backoff ? requested : backoff;
+}
+
+/**
+ * Record the result of a send attempt and schedule a retry if allowed
+ *
+ * @param message - The processed message
+ * @param result - Result returned by the email service
+ * @param provider - Email provider used
+ * @param env - Cloudflare environment bindings
+ * @param templateVersionId - Template version rendered, for template messages
+ */
+async function recordResult(
+	message: MessageWithRelations,
+	result: EmailResponse,
+	provider: EmailProvider,
+	env: Env,
+	templateVersionId?: number,
+): Promise<void> {
+	const messageId = typeof message.id === 'string' ? message.id : String(message.id);
+
+	// Deferred sends were never attempted, so they do not use up an attempt
+	if (result.deferredUntil) {
+		await MessageLogService.updateMessageLog(messageId, result, env);
+		console.warn(`⏸ Message ${messageId} deferred until ${result.deferredUntil.toISOString()}: ${result.message}`);
+		return;
+	}
+
 	// Calculate retry info
 	const newAttempts = message.attempts + 1;
 	const canRetry = result.retriable && shouldRetry(newAttempts, message.maxAttempts);
-	const nextRetryAt = canRetry ? calculateNextRetryTime(newAttempts) : undefined;
+	const nextRetryAt = canRetry ? getNextRetryTime(newAttempts, result.retryAfter) : undefined;
 
 	// Update message log
 	await MessageLogService.updateMessageLog(messageId, result, env, {
 		attempts: newAttempts,
 		nextRetryAt,
 		provider,
+		templateVersionId,
 	});
 
 	// Log result
@@ -4,7 +4,7 @@
  * Handles retrieval and processing of scheduled and retry-pending emails.
  */
 
-import { type Contact, type Message as MessageType, type Template } from '@prisma/client';
+import { type Contact, type Message as MessageType, type MessageStatus, type Prisma, type Template } from '@prisma/client';
 
 import { getPrismaClient } from '../lib/prisma-client';
 
@@ -14,6 +14,9 @@ export type MessageWithRelations = MessageType & {
 	template: Template | null;
 };
 
+// Statuses of messages that have not been picked up for sending yet
+export const PENDING_STATUSES: MessageStatus[] = ['SCHEDULED', 'QUEUED'];
+
 class SchedulerService {
 	/**
 	 * Get scheduled emails that are due to be sent
@@ -29,7 +32,7 @@ class SchedulerService {
 			const messages = await prisma.message.findMany({
 				where: {
 					status: {
-						in: ['SCHEDULED', 'QUEUED'],
+						in: PENDING_STATUSES,
 					},
 					scheduledAt: {
 						lte: new Date(),
@@ -119,7 +122,7 @@ class SchedulerService {
 				where: {
 					id,
 					status: {
-						in: ['SCHEDULED', 'QUEUED', 'FAILED'],
+						in: [...PENDING_STATUSES, 'FAILED'],
 					},
 				},
 				data: {
@@ -134,6 +137,41 @@ class SchedulerService {
 		}
 	}
 
+	/**
+	 * Update a message only while it is pending and its send time has not arrived
+	 *
+	 * Pending messages that are due may already be on their way to the provider,
+	 * so they are left alone.
+	 *
+	 * @param messageId - Message ID to update
+	 * @param data - Fields to update
+	 * @param env - Environment with DB binding
+	 * @returns true if the message was still waiting and got updated, false otherwise
+	 */
+	static async updateScheduledMessage(messageId: number, data: Prisma.MessageUpdateManyMutationInput, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			const result = await prisma.message.updateMany({
+				where: {
+					id: messageId,
+					status: {
+						in: PENDING_STATUSES,
+					},
+					scheduledAt: {
+						gt: new Date(),
+					},
+				},
+				data,
+			});
+
+			return result.count > 0;
+		} catch (error) {
+			console.error(`Error updating scheduled message ${messageId}: ${error}`);
+			return false;
+		}
+	}
+
 	/**
 	 * Get message details by ID including related contact and template
 	 *
@@ -141,7 +179,7 @@ class SchedulerService {
 	 * @param env - Environment with DB binding
 	 * @returns Message with related data or null
 	 */
-	static async getMessage(messageId: number, env: Env): Promise<MessageType | null> {
+	static async getMessage(messageId: number, env: Env): Promise<MessageWithRelations | null> {
 		const prisma = getPrismaClient(env);
 
 		try {
@@ -1,44 +1,77 @@
 /**
  * Email Template Service
- * Handles fetching and processing email templates with variable substitution
+ * Handles fetching and rendering email templates; see lib/template-engine for the template language
  */
 
+import { getAvailableProviders } from '../lib/email-provider';
 import { getPrismaClient } from '../lib/prisma-client';
+import { compileTemplate, getTemplateVariables, renderTemplate } from '../lib/template-engine';
+import type { EmailProvider, TemplateVariableDeclaration, TemplateVariables, TemplateVariableType } from '../types';
 
-interface TemplateData {
+export interface TemplateData {
 	id: number;
 	name: string;
 	subject: string;
 	htmlContent: string;
 	textContent: string;
+	providerOrder?: EmailProvider[];
+	isActive: boolean; // False when the template or its project is deactivated
+	versionId: number | null; // Version the content comes from
+	variables: TemplateVariableDeclaration[] | null; // Declared variables, null when the template declares none
 }
 
-interface TemplateVariables {
-	[key: string]: string | number | boolean;
-}
+/**
+ * Variables that do not match a template's declarations
+ */
+export type VariableValidationResult = {
+	missing: string[];
+	mistyped: { name: string; expected: TemplateVariableType }[];
+};
 
 class TemplateService {
 	/**
 	 * Fetch a template by name from the database
+	 *
+	 * Returns the published content, or the content of the given version of the template.
 	 */
-	static async getTemplate(key: string, env: Env): Promise<TemplateData | null> {
+	static async getTemplate(key: string, env: Env, versionId?: number): Promise<TemplateData | null> {
 		const prisma = getPrismaClient(env);
 
 		try {
 			const template = await prisma.template.findFirst({
 				where: { key: key },
+				include: { project: { select: { isActive: true } } },
 			});
 
 			if (!template) {
 				return null;
 			}
 
+			let content = {
+				subject: template.subject,
+				bodyHtml: template.bodyHtml,
+				bodyText: template.bodyText,
+				variables: template.variables,
+			};
+			if (versionId !== undefined && versionId !== template.publishedVersionId) {
+				const version = await prisma.templateVersion.findFirst({ where: { id: versionId, templateId: template.id } });
+				if (!version) {
+					console.error(`Version ${versionId} not found for template ${key}`);
+					return null;
+				}
+				content = version;
+			}
+
 			return {
 				id: template.id,
 				name: template.key,
-				subject: template.subject,
-				htmlContent: template.bodyHtml,
-				textContent: template.bodyText,
+				subject: content.subject,
+				htmlContent: content.bodyHtml,
+				textContent: content.bodyText,
+				providerOrder: this.parseProviderOrder(template.providerOrder),
+				isActive: template.isActive && template.project.isActive,
+				versionId: versionId ?? template.publishedVersionId,
+				variables: this.parseVariables(content.variables),
 			};
 		} catch (error) {
 			console.error(`Failed to fetch template ${key}: ${error}`);
@@ -47,48 +80,154 @@ class TemplateService {
 	}
 
 	/**
-	 * Process a template with variable substitution
-	 * Replaces {{variable}} placeholders with actual values
+	 * Get the ID of a version of a template by its number
+	 *
+	 * @returns The version ID, or null if the template has no such version
 	 */
-	static processTemplate(template: TemplateData, variables: TemplateVariables): { subject: string; html: string; text: string } {
-		// Process subject
-		let subject = template.subject;
+	static async getVersionId(templateId: number, version: number, env: Env): Promise<number | null> {
+		const prisma = getPrismaClient(env);
+		const found = await prisma.templateVersion.findUnique({
+			where: { templateId_version: { templateId, version } },
+			select: { id: true },
+		});
+		return found?.id ?? null;
+	}
+
+	/**
+	 * Parse a template's provider failover order, ignoring unknown providers
+	 */
+	private static parseProviderOrder(providerOrderJson: string | null): EmailProvider[] | undefined {
+		if (!providerOrderJson) {
+			return undefined;
+		}
+
+		try {
+			const providers: unknown = JSON.parse(providerOrderJson);
+			if (!Array.isArray(providers)) {
+				return undefined;
+			}
+			return providers.filter((provider): provider is EmailProvider => getAvailableProviders().includes(provider));
+		} catch (error) {
+			console.error(`Failed to parse provider order: ${providerOrderJson}`, error);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Parse a template's declared variables
+	 */
+	static parseVariables(variablesJson: string | null): TemplateVariableDeclaration[] | null {
+		if (!variablesJson) {
+			return null;
+		}
+
+		try {
+			const variables: unknown = JSON.parse(variablesJson);
+			return Array.isArray(variables) ? variables : null;
+		} catch (error) {
+			console.error(`Failed to parse template variables: ${variablesJson}`, error);
+			return null;
+		}
+	}
 
-		// Process HTML content if available
-		let html = template.htmlContent;
+	/**
+	 * Check a value against a declared variable type
+	 */
+	static matchesType(value: unknown, type: TemplateVariableType): boolean {
+		switch (type) {
+			case 'string':
+				return typeof value === 'string';
+			case 'number':
+				return typeof value === 'number' && Number.isFinite(value);
+			case 'boolean':
+				return typeof value === 'boolean';
+			case 'date':
+				return (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+			case 'array':
+				return Array.isArray(value);
+			case 'object':
+				return typeof value === 'object' && value !== null && !Array.isArray(value);
+		}
+	}
 
-		// Process text content
-		let text = template.textContent;
+	/**
+	 * Check variables against a template's declarations
+	 *
+	 * Required variables without a default must be given; given variables must
+	 * have their declared type. Undeclared variables are ignored.
+	 */
+	static validateVariables(template: TemplateData, variables: TemplateVariables): VariableValidationResult {
+		const result: VariableValidationResult = { missing: [], mistyped: [] };
+
+		for (const declaration of template.variables ?? []) {
+			const value = Object.prototype.hasOwnProperty.call(variables, declaration.name) ? variables[declaration.name] : undefined;
+			if (value === undefined || value === null) {
+				if (declaration.required && declaration.default === undefined) {
+					result.missing.push(declaration.name);
+				}
+			} else if (!this.matchesType(value, declaration.type)) {
+				result.mistyped.push({ name: declaration.name, expected: declaration.type });
+			}
+		}
 
-		// Replace variables in all content
-		Object.entries(variables).forEach(([key, value]) => {
-			const placeholder = new RegExp(`{{${key}}}`, 'g');
-			subject = subject.replace(placeholder, String(value));
+		return result;
+	}
 
-			html = html.replace(placeholder, String(value));
+	/**
+	 * Render a template's subject and bodies, escaping values in the HTML body
+	 * and using declared defaults for variables that were not given
+	 *
+	 * @throws TemplateError if the template is malformed or a value cannot be formatted
+	 */
+	static processTemplate(template: TemplateData, variables: TemplateVariables): { subject: string; html: string; text: string } {
+		// Declared defaults fill in variables that were not given
+		const values = { ...variables };
+		for (const { name, default: defaultValue } of template.variables ?? []) {
+			const given = Object.prototype.hasOwnProperty.call(values, name) && values[name] !== null;
+			if (!given && defaultValue !== undefined) {
+				values[name] = defaultValue;
+			}
+		}
 
-			text = text.replace(placeholder, String(value));
-		});
+		const subject = renderTemplate(compileTemplate(template.subject), values, { html: false });
 
-		return { subject, html, text };
+		return {
+			// A line break from a variable would end the Subject header early
+			subject: subject.replace(/[\r\n]+/g, ' '),
+			html: renderTemplate(compileTemplate(template.htmlContent), values, { html: true }),
+			text: renderTemplate(compileTemplate(template.textContent), values, { html: false }),
+		};
 	}
 
 	/**
-	 * Get a processed template ready for sending
+	 * Render a template without sending it, reporting variables the template reads
+	 * that were not given and have no declared default, and given variables that
+	 * the template never reads
+	 *
+	 * @throws TemplateError if the template is malformed or a value cannot be formatted
 	 */
-	static async getProcessedTemplate(
+	static async previewTemplate(
 		key: string,
 		variables: TemplateVariables,
 		env: Env,
-	): Promise<{ subject: string; html: string; text: string } | null> {
+	): Promise<{ subject: string; html: string; text: string; missingVariables: string[]; unusedVariables: string[] } | null> {
 		const template = await this.getTemplate(key, env);
 
 		if (!template) {
-			console.error(`Template not found: ${key}`);
 			return null;
 		}
 
-		return this.processTemplate(template, variables);
+		const rendered = this.processTemplate(template, variables);
+		const used = getTemplateVariables(...[template.subject, template.htmlContent, template.textContent].map(compileTemplate));
+		// A variable with a declared default is filled in when not given, as in processTemplate
+		const defaults = new Set((template.variables ?? []).filter((declaration) => declaration.default !== undefined).map(({ name }) => name));
+		const isGiven = (name: string) => Object.prototype.hasOwnProperty.call(variables, name) && variables[name] !== null;
+
+		return {
+			...rendered,
+			missingVariables: used.filter((name) => !isGiven(name) && !defaults.has(name)),
+			unusedVariables: Object.keys(variables).filter((name) => !used.includes(name)),
+		};
 	}
 }
 
@@ -32,6 +32,12 @@ export class ValidationError extends ApplicationError {
 	}
 }
 
+/**
+ * Template errors (400) - not retriable
+ * Used when a template cannot be parsed or rendered with the given variables
+ */
+export class TemplateError extends ValidationError {}
+
 /**
  * Not found errors (404) - not retriable
  * Used when a resource (template, contact, etc.) cannot be found
@@ -43,6 +49,16 @@ export class NotFoundError extends ApplicationError {
 	}
 }
 
+/**
+ * Conflict errors (409) - not retriable
+ * Used when a change clashes with existing data or a concurrent change
+ */
+export class ConflictError extends ApplicationError {
+	constructor(message: string) {
+		super(message, 409, false);
+	}
+}
+
 /**
  * Configuration errors (500) - not retriable
  * Used when there's a configuration problem (missing API keys, invalid setup)
@@ -63,6 +79,7 @@ export class ProviderError extends ApplicationError {
 		message: string,
 		code: number,
 		retriable: boolean,
+		public readonly retryAfter?: number, // Seconds the provider asked to wait, if it said
 	) {
 		super(`${provider} error: ${message}`, code, retriable);
 	}
@@ -73,7 +90,10 @@ export class ProviderError extends ApplicationError {
  * Used when rate limits are exceeded
  */
 export class RateLimitError extends ApplicationError {
-	constructor(message: string = 'Rate limit exceeded') {
+	constructor(
+		message: string = 'Rate limit exceeded',
+		public readonly retryAfter?: number, // Seconds to wait before retrying, if known
+	) {
 		super(message, 429, true);
 	}
 }
@@ -0,0 +1,284 @@
+/**
+ * Inbound Email Service
+ *
+ * Handles mail received by the Workers email() handler: unsubscribe requests,
+ * bounce reports (DSNs) and replies. Mail is matched to the original message
+ * by a signed token in the plus-addressed reply and unsubscribe addresses,
+ * e.g. inbound+r-42-0123456789abcdef@example.com.
+ */
+
+import type { MessageReply } from '@prisma/client';
+
+import { INBOUND_CONFIG } from '../config';
+import { getProvider } from '../email/email-utils';
+import type { MimePart, ParsedEmail } from '../lib/mime-parser';
+import { findPart, parseMimeMessage } from '../lib/mime-parser';
+import { getPrismaClient } from '../lib/prisma-client';
+import { getEmailAddress, isSameAddress, timingSafeEqual } from '../lib/utils';
+import TemplateOptOutService from '../optout/optout-service';
+import DeliveryEventService from '../webhook/delivery-event-service';
+import type { DeliveryEventInput } from '../webhook/delivery-events';
+
+/**
+ * What mail sent to a plus-addressed inbound address is for
+ */
+export type InboundAction = 'reply' | 'unsubscribe';
+
+// Token prefix of each action in the local part of the address
+const ACTION_PREFIXES: Record<InboundAction, string> = { reply: 'r', unsubscribe: 'u' };
+
+// Plus-addressed token: action prefix, message ID and truncated signature
+const TOKEN_PATTERN = /\+([ru])-(\d+)-([0-9a-f]+)@/gi;
+
+const encoder = new TextEncoder();
+
+/**
+ * Check that inbound addresses can be built and verified
+ *
+ * @param env - Environment with INBOUND_ADDRESS and INBOUND_SECRET
+ */
+export function isInboundConfigured(env: Env): boolean {
+	return Boolean(env.INBOUND_ADDRESS?.includes('@') && env.INBOUND_SECRET);
+}
+
+/**
+ * Sign an address token, truncated to keep the address short
+ */
+async function signToken(prefix: string, messageId: number, secret: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(`${prefix}-${messageId}`)));
+	return [...signature]
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('')
+		.slice(0, INBOUND_CONFIG.TOKEN_SIGNATURE_LENGTH);
+}
+
+/**
+ * Parse the per-recipient blocks of a message/delivery-status report
+ */
+function parseDeliveryStatus(report: string): { recipient: string; action: string; status?: string; diagnostic?: string }[] {
+	return report
+		.split(/\r?\n\s*\r?\n/)
+		.map((block) => {
+			const fields = new Map<string, string>();
+			for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+				const separator = line.indexOf(':');
+				if (separator > 0) {
+					fields.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+				}
+			}
+			return fields;
+		})
+		.filter((fields) => fields.has('final-recipient') && fields.has('action'))
+		.map((fields) => ({
+			// e.g. "rfc822; user@example.com"
+			recipient: fields.get('final-recipient')!.replace(/^[^;]*;\s*/, ''),
+			action: fields.get('action')!.toLowerCase(),
+			status: fields.get('status'),
+			diagnostic: fields.get('diagnostic-code')?.replace(/^[^;]*;\s*/, ''),
+		}));
+}
+
+class InboundService {
+	/**
+	 * Build the plus-addressed inbound address for a message
+	 *
+	 * @param action - reply or unsubscribe
+	 * @param messageId - ID of the logged message
+	 * @param env - Environment with the inbound address and secret
+	 */
+	static async getAddress(action: InboundAction, messageId: number, env: Env): Promise<string> {
+		const separator = env.INBOUND_ADDRESS.lastIndexOf('@');
+		const localPart = env.INBOUND_ADDRESS.slice(0, separator);
+		const domain = env.INBOUND_ADDRESS.slice(separator + 1);
+		const prefix = ACTION_PREFIXES[action];
+
+		return `${localPart}+${prefix}-${messageId}-${await signToken(prefix, messageId, env.INBOUND_SECRET)}@${domain}`;
+	}
+
+	/**
+	 * Find the first validly signed inbound address in some text
+	 *
+	 * @param text - An address, or e.g. the headers of a returned message
+	 * @param env - Environment with the inbound secret
+	 * @returns The action and message ID, or null if no address has a valid token
+	 */
+	static async findAddress(text: string, env: Env): Promise<{ action: InboundAction; messageId: number } | null> {
+		for (const [, prefix, id, signature] of text.matchAll(TOKEN_PATTERN)) {
+			const messageId = Number(id);
+			const expected = await signToken(prefix.toLowerCase(), messageId, env.INBOUND_SECRET);
+			if (timingSafeEqual(signature.toLowerCase(), expected)) {
+				return { action: prefix.toLowerCase() === ACTION_PREFIXES.unsubscribe ? 'unsubscribe' : 'reply', messageId };
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Handle a message received by the email() handler
+	 *
+	 * Mail that cannot be matched to a message is rejected, so the sender gets a bounce.
+	 *
+	 * @param message - Inbound message from Email Routing
+	 * @param env - Environment with DB binding and inbound settings
+	 */
+	static async handleEmail(message: ForwardableEmailMessage, env: Env): Promise<void> {
+		if (!isInboundConfigured(env)) {
+			console.error('Inbound email not configured');
+			message.setReject('Inbound email is not accepted');
+			return;
+		}
+
+		if (message.rawSize > INBOUND_CONFIG.MAX_SIZE) {
+			message.setReject(`Message too large (maximum ${INBOUND_CONFIG.MAX_SIZE} bytes)`);
+			return;
+		}
+
+		const parsed = parseMimeMessage(new Uint8Array(await new Response(message.raw).arrayBuffer()));
+
+		// Bounce reports go to the envelope sender, not always an inbound address,
+		// so they are matched by the reply address in the returned headers instead
+		const report = findPart(parsed.root, 'message/delivery-status');
+		if (report) {
+			await this.handleDeliveryReport(parsed, report, env);
+			return;
+		}
+
+		const target = await this.findAddress(getEmailAddress(message.to), env);
+		if (!target) {
+			console.warn(`Rejected inbound email from ${message.from} to unknown address ${message.to}`);
+			message.setReject('Unknown recipient');
+			return;
+		}
+
+		const isUnsubscribe = target.action === 'unsubscribe' || INBOUND_CONFIG.UNSUBSCRIBE_SUBJECT_PATTERN.test(parsed.subject ?? '');
+		if (isUnsubscribe && (await this.handleUnsubscribe(target.messageId, message.from, env))) {
+			return;
+		}
+
+		// An unsubscribe address has nothing to store when the request was not accepted
+		if (target.action === 'unsubscribe') {
+			return;
+		}
+
+		await this.storeReply(target.messageId, message.from, parsed, env);
+	}
+
+	/**
+	 * Record the bounces and delays in a delivery status notification
+	 *
+	 * Anyone who received the message can send a report quoting its reply address,
+	 * so only the message's own contact is taken from the report, and its bounces
+	 * never add the address to the suppression list.
+	 */
+	private static async handleDeliveryReport(parsed: ParsedEmail, report: MimePart, env: Env): Promise<void> {
+		const returned = findPart(parsed.root, 'message/rfc822') ?? findPart(parsed.root, 'text/rfc822-headers');
+		const target = returned ? await this.findAddress(returned.body, env) : null;
+		if (!target) {
+			console.warn(`No message found for bounce report ${parsed.messageId ?? ''}`);
+			return;
+		}
+
+		const prisma = getPrismaClient(env);
+		const message = await prisma.message.findUnique({
+			where: { id: target.messageId },
+			select: { provider: true, externalId: true, contact: { select: { emailAddress: true } } },
+		});
+		if (!message) {
+			console.warn(`Message ${target.messageId} not found for bounce report ${parsed.messageId ?? ''}`);
+			return;
+		}
+
+		const events: DeliveryEventInput[] = parseDeliveryStatus(report.body)
+			.filter(({ action }) => action === 'failed' || action === 'delayed')
+			.filter(({ recipient }) => isSameAddress(recipient, message.contact.emailAddress))
+			.map(({ recipient, action, status, diagnostic }) => ({
+				messageId: target.messageId,
+				provider: getProvider(message.provider ?? undefined),
+				type: action === 'failed' ? 'BOUNCED' : 'DEFERRED',
+				externalId: message.externalId ?? parsed.messageId ?? '',
+				recipient,
+				...(action === 'failed' && { permanent: !status?.startsWith('4') }),
+				detail: [status, diagnostic].filter(Boolean).join(': ') || undefined,
+				occurredAt: new Date(),
+			}));
+
+		await DeliveryEventService.recordEvents(events, env, { suppress: false });
+		console.info(`Recorded ${events.length} delivery events from bounce report for message ${target.messageId}`);
+	}
+
+	/**
+	 * Opt the recipient of a message out of the message's template
+	 *
+	 * Cc and bcc recipients get the same reply and unsubscribe addresses, so the
+	 * request is only accepted from the message's own contact.
+	 *
+	 * @returns false if the request did not come from the message's contact
+	 */
+	private static async handleUnsubscribe(messageId: number, sender: string, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+		const message = await prisma.message.findUnique({
+			where: { id: messageId },
+			include: { contact: true, template: true },
+		});
+
+		if (!message || !isSameAddress(sender, message.contact.emailAddress)) {
+			console.warn(`Unsubscribe request for message ${messageId} from ${sender}, not its recipient, ignored`);
+			return false;
+		}
+
+		if (!message.template) {
+			console.warn(`Unsubscribe request for message ${messageId} without a template, ignored`);
+			return true;
+		}
+
+		const result = await TemplateOptOutService.addOptOut(message.contact.emailAddress, message.template.key, 'Unsubscribed by email', env);
+		if (result.error) {
+			console.error(`Failed to unsubscribe ${message.contact.emailAddress} from "${message.template.key}": ${result.error}`);
+			return true;
+		}
+
+		console.info(`Unsubscribed ${message.contact.emailAddress} from "${message.template.key}" by email`);
+		return true;
+	}
+
+	/**
+	 * Store a reply against the original message
+	 */
+	private static async storeReply(messageId: number, sender: string, parsed: ParsedEmail, env: Env): Promise<void> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			await prisma.messageReply.create({
+				data: {
+					messageId,
+					sender: parsed.from ?? sender,
+					subject: parsed.subject,
+					bodyText: parsed.text,
+					bodyHtml: parsed.html,
+					externalId: parsed.messageId,
+				},
+			});
+			console.info(`Stored reply from ${sender} to message ${messageId}`);
+		} catch (error) {
+			console.error(`Failed to store reply to message ${messageId}: ${error}`);
+		}
+	}
+
+	/**
+	 * List the replies to a message, oldest first
+	 *
+	 * @param messageId - ID of the original message
+	 * @param env - Environment with DB binding
+	 */
+	static async listReplies(messageId: number, env: Env): Promise<MessageReply[]> {
+		const prisma = getPrismaClient(env);
+		return prisma.messageReply.findMany({
+			where: { messageId },
+			orderBy: { receivedAt: 'asc' },
+		});
+	}
+}
+
+export default InboundService;
@@ -2,15 +2,24 @@ import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 
+import { router as captureRouter } from './capture';
 import { SCHEDULER_CONFIG } from './config';
 import { router as emailRouter } from './email';
+import IdempotencyService from './email/idempotency-service';
 import { processMessage } from './email/message-processor';
 import SchedulerService from './email/scheduler-service';
+import InboundService from './inbound/inbound-service';
 import { authHandler } from './middleware/auth-handler';
 import { errorHandler } from './middleware/error-handler';
 import { rateLimiter } from './middleware/rate-limiter';
 import { responseHandler } from './middleware/response-handler';
 import { router as subscriptionRouter } from './optout';
+import { router as projectRouter } from './project';
+import { router as providerRouter } from './provider';
+import { router as suppressionRouter } from './suppression';
+import { router as templateRouter } from './template';
+import { router as trackingRouter } from './tracking';
+import { router as webhookRouter } from './webhook';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -29,11 +38,34 @@ app.use('/api/*', authHandler);
 // API routes with versioning
 app.route('/api/v1', emailRouter);
 app.route('/api/v1', subscriptionRouter);
+app.route('/api/v1', projectRouter);
+app.route('/api/v1', templateRouter);
+app.route('/api/v1', providerRouter);
+app.route('/api/v1', captureRouter);
+app.route('/api/v1', suppressionRouter);
+
+// Provider delivery webhooks (verified by signature, outside API key auth)
+app.route('/', webhookRouter);
+
+// Open and click tracking (verified by signed token, outside API key auth)
+app.route('/', trackingRouter);
 
 app.all('*', (c) => c.json({ message: 'Method not allowed' }, 405));
 
 export default {
 	fetch: app.fetch,
+	async email(message, env) {
+		// Replies, unsubscribe requests and bounce reports routed by Email Routing
+		console.info(`Inbound email from ${message.from} to ${message.to}`);
+
+		try {
+			await InboundService.handleEmail(message, env);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			console.error(`✗ Inbound email failed: ${errorMessage}`);
+			message.setReject('Failed to process message');
+		}
+	},
 	async scheduled(event, env, ctx) {
 		console.info(`Cron job started: ${event.cron}`);
 
@@ -54,6 +86,12 @@ export default {
 				ctx.waitUntil(processMessage(message, env, ctx));
 			}
 
+			// Drop idempotency keys past their retention window
+			const purgedKeys = await IdempotencyService.purgeExpired(env);
+			if (purgedKeys > 0) {
+				console.info(`Purged ${purgedKeys} expired idempotency keys`);
+			}
+
 			// Legacy report generation (if needed)
 			if (event.cron === SCHEDULER_CONFIG.DAILY_REPORT_CRON) {
 				console.info('Generate mail reports.');
@@ -0,0 +1,30 @@
+import CaptureService from '../capture/capture-service';
+import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { toProviderResponse } from './provider-transport';
+
+const send = async (params: EmailProviderParams, env: Env): Promise<ProviderResponse> => {
+	try {
+		const captured = await CaptureService.capture(params, env);
+		return {
+			code: 201,
+			message: `Email captured for ${JSON.stringify(params.to)}: ${captured.messageId}`,
+			data: { id: captured.messageId },
+			retriable: false,
+		};
+	} catch (error) {
+		return toProviderResponse(error);
+	}
+};
+
+export const captureProvider: EmailProviderDefinition = {
+	name: 'capture',
+	displayName: 'Capture',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: true },
+	requiredSecrets: ['DB'],
+	// The database is always bound, so capture is only offered where it was asked for
+	isEnabled: (env) => env.CAPTURE_EMAILS === 'true',
+};
+
+export default send;
@@ -0,0 +1,119 @@
+/**
+ * Line Diff
+ *
+ * Unified diffs between two texts, for comparing template versions.
+ */
+
+// Largest number of changed lines compared line by line; larger changes are
+// shown as a whole block removed and added, to bound time and memory
+const MAX_COMPARED_LINES = 2000;
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Diff two lists of lines using their longest common subsequence
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+	// Trim the common prefix and suffix, which is most of the text for typical edits
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const prefix: DiffOp[] = a.slice(0, start).map((line) => ({ type: ' ', line }));
+	const suffix: DiffOp[] = a.slice(endA).map((line) => ({ type: ' ', line }));
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+
+	if (midA.length > MAX_COMPARED_LINES || midB.length > MAX_COMPARED_LINES) {
+		return [
+			...prefix,
+			...midA.map((line): DiffOp => ({ type: '-', line })),
+			...midB.map((line): DiffOp => ({ type: '+', line })),
+			...suffix,
+		];
+	}
+
+	// lengths[i][j]: length of the LCS of midA[i..] and midB[j..]
+	const width = midB.length + 1;
+	const lengths = new Uint16Array((midA.length + 1) * width);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				midA[i] === midB[j] ? lengths[(i + 1) * width + j + 1] + 1 : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const middle: DiffOp[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < midA.length || j < midB.length) {
+		if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+			middle.push({ type: ' ', line: midA[i++] });
+			j++;
+		} else if (j < midB.length && (i === midA.length || lengths[i * width + j + 1] > lengths[(i + 1) * width + j])) {
+			middle.push({ type: '+', line: midB[j++] });
+		} else {
+			middle.push({ type: '-', line: midA[i++] });
+		}
+	}
+
+	return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * Build a unified diff between two texts
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @param labels - Names of the old and new texts for the --- and +++ lines
+ * @returns The diff, or null if the texts are equal
+ */
+export function unifiedDiff(before: string, after: string, labels: { from: string; to: string }): string | null {
+	if (before === after) {
+		return null;
+	}
+
+	const ops = diffLines(before.split(/\r?\n/), after.split(/\r?\n/));
+	const output = [`--- ${labels.from}`, `+++ ${labels.to}`];
+
+	// Group changes into hunks with their surrounding context
+	let index = 0;
+	while (index < ops.length) {
+		const firstChange = ops.findIndex((op, i) => i >= index && op.type !== ' ');
+		if (firstChange === -1) {
+			break;
+		}
+
+		const hunkStart = Math.max(index, firstChange - CONTEXT_LINES);
+		let hunkEnd = firstChange;
+		let unchanged = 0;
+		for (let i = firstChange; i < ops.length && unchanged <= CONTEXT_LINES * 2; i++) {
+			unchanged = ops[i].type === ' ' ? unchanged + 1 : 0;
+			hunkEnd = i + 1;
+		}
+		hunkEnd = Math.min(ops.length, hunkEnd - Math.max(0, unchanged - CONTEXT_LINES));
+
+		// Line numbers (1-based) where the hunk starts in each text
+		const before = ops.slice(0, hunkStart);
+		const oldStart = before.filter((op) => op.type !== '+').length + 1;
+		const newStart = before.filter((op) => op.type !== '-').length + 1;
+		const hunk = ops.slice(hunkStart, hunkEnd);
+		const oldCount = hunk.filter((op) => op.type !== '+').length;
+		const newCount = hunk.filter((op) => op.type !== '-').length;
+
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...hunk.map((op) => `${op.type}${op.line}`));
+		index = hunkEnd;
+	}
+
+	return output.join('\n');
+}
@@ -1,14 +1,21 @@
 /**
- * Email Provider Interface and Factory
+ * Email Provider Interface and Registry
  *
- * Provides a unified interface for all email providers and a factory function
- * to get the appropriate provider based on configuration.
+ * Provides a unified interface for all email providers and a registry that
+ * providers add themselves to with their capabilities and required secrets.
  */
 
-import type { EmailProvider, ProviderResponse } from '../types';
-import sendMailerSend from './mailersend-client';
-import sendResend from './resend-client';
-import sendSes from './ses-client';
+import { EMAIL_CONFIG } from '../config';
+import { ConfigurationError } from '../errors';
+import type { EmailAttachment, EmailProvider, ProviderResponse } from '../types';
+import { captureProvider } from './capture-client';
+import { mailerSendProvider } from './mailersend-client';
+import { mailgunProvider } from './mailgun-client';
+import { postmarkProvider } from './postmark-client';
+import { resendProvider } from './resend-client';
+import { sendGridProvider } from './sendgrid-client';
+import { sesProvider } from './ses-client';
+import { smtpProvider } from './smtp-client';
 
 /**
  * Parameters for sending an email
@@ -16,9 +23,14 @@ import sendSes from './ses-client';
 export interface EmailProviderParams {
 	to: string | string[];
 	from: string;
+	replyTo?: string;
+	cc?: string[];
+	bcc?: string[];
+	headers?: Record<string, string>;
 	subject: string;
 	text: string;
 	html: string;
+	attachments?: EmailAttachment[];
 }
 
 /**
@@ -27,50 +39,160 @@ export interface EmailProviderParams {
 export type EmailProviderFunction = (params: EmailProviderParams, env: Env) => Promise<ProviderResponse>;
 
 /**
- * Get the appropriate email provider function based on the provider name
+ * Optional features a provider supports
+ */
+export interface ProviderCapabilities {
+	attachments: boolean;
+	customHeaders: boolean;
+	batch: boolean;
+}
+
+/**
+ * A registered email provider
+ */
+export interface EmailProviderDefinition {
+	// Identifier used in requests and stored on messages
+	name: EmailProvider;
+	// Human-readable name for logging
+	displayName: string;
+	send: EmailProviderFunction;
+	capabilities: ProviderCapabilities;
+	// Env secrets that must be set for the provider to be usable
+	requiredSecrets: (keyof Env)[];
+	// Further check that the provider is switched on, for providers that need no secrets
+	isEnabled?: (env: Env) => boolean;
+}
+
+const registry = new Map<EmailProvider, EmailProviderDefinition>();
+
+/**
+ * Register an email provider, replacing any provider with the same name
+ *
+ * @param definition - The provider definition
+ */
+export function registerProvider(definition: EmailProviderDefinition): void {
+	registry.set(definition.name, definition);
+}
+
+[
+	sesProvider,
+	resendProvider,
+	mailerSendProvider,
+	postmarkProvider,
+	sendGridProvider,
+	mailgunProvider,
+	smtpProvider,
+	captureProvider,
+].forEach(registerProvider);
+
+/**
+ * Get a registered provider definition
+ *
+ * @param provider - The email provider name
+ * @returns The provider definition, or undefined if not registered
+ */
+export function getProviderDefinition(provider: EmailProvider): EmailProviderDefinition | undefined {
+	return registry.get(provider);
+}
+
+/**
+ * Get the send function of a registered provider
  *
  * @param provider - The email provider name
  * @returns The provider function
- * @throws Error if provider is not recognized
+ * @throws ConfigurationError if provider is not registered
  */
 export function getEmailProvider(provider: EmailProvider): EmailProviderFunction {
-	switch (provider) {
-		case 'ses':
-			return sendSes;
-		case 'resend':
-			return sendResend;
-		case 'mailersend':
-			return sendMailerSend;
-		default:
-			// Fallback to mailersend for unknown providers
-			return sendMailerSend;
+	const definition = registry.get(provider);
+	if (!definition) {
+		throw new ConfigurationError(`Unknown email provider: ${provider}`);
 	}
+	return definition.send;
 }
 
 /**
  * Get the name of the provider for logging purposes
  *
- * @param provider - The email provider type
+ * @param provider - The email provider name
  * @returns Human-readable provider name
  */
 export function getProviderName(provider: EmailProvider): string {
-	switch (provider) {
-		case 'ses':
-			return 'AWS SES';
-		case 'resend':
-			return 'Resend';
-		case 'mailersend':
-			return 'MailerSend';
-		default:
-			return 'Unknown Provider';
-	}
+	return registry.get(provider)?.displayName ?? 'Unknown Provider';
 }
 
 /**
- * List all available email providers
+ * List all registered email providers
  *
- * @returns Array of available provider names
+ * @returns Array of registered provider names
  */
 export function getAvailableProviders(): EmailProvider[] {
-	return ['ses', 'resend', 'mailersend'];
+	return [...registry.keys()];
+}
+
+/**
+ * Check whether a provider is registered, the secrets it needs are configured and it is switched on
+ *
+ * @param provider - The email provider name
+ * @param env - Environment with provider secrets
+ * @returns true if the provider can be used
+ */
+export function isProviderConfigured(provider: EmailProvider, env: Env): boolean {
+	const definition = registry.get(provider);
+	return Boolean(definition && definition.requiredSecrets.every((secret) => Boolean(env[secret])) && (definition.isEnabled?.(env) ?? true));
+}
+
+/**
+ * Check whether a provider supports all of the required capabilities
+ *
+ * @param provider - The email provider name
+ * @param required - Capabilities the send needs
+ * @returns true if every required capability is supported
+ */
+export function supportsCapabilities(provider: EmailProvider, required: Partial<ProviderCapabilities>): boolean {
+	const definition = registry.get(provider);
+	if (!definition) {
+		return false;
+	}
+	return (Object.keys(required) as (keyof ProviderCapabilities)[]).every(
+		(capability) => !required[capability] || definition.capabilities[capability],
+	);
+}
+
+/**
+ * Check whether all outgoing email is forced through the capture provider
+ *
+ * @param env - Environment with the CAPTURE_ALL_EMAIL switch
+ * @returns true if nothing may be sent to a real provider
+ */
+export function isCaptureForced(env: Env): boolean {
+	return env.CAPTURE_ALL_EMAIL === 'true';
+}
+
+/**
+ * Build the ordered list of providers to try for a send
+ *
+ * The requested provider always comes first, followed by the failover providers
+ * that are configured and support what the send needs. When capture is forced,
+ * the capture provider is the only one.
+ *
+ * @param provider - The requested provider
+ * @param failoverProviders - Failover order (defaults to the global order)
+ * @param required - Capabilities the send needs
+ * @param env - Environment with provider secrets
+ * @returns Providers to try, in order
+ */
+export function getProviderChain(
+	provider: EmailProvider,
+	failoverProviders: EmailProvider[] | undefined,
+	required: Partial<ProviderCapabilities>,
+	env: Env,
+): EmailProvider[] {
+	if (isCaptureForced(env)) {
+		return [captureProvider.name];
+	}
+
+	const fallbacks = (failoverProviders ?? EMAIL_CONFIG.FAILOVER_PROVIDERS).filter(
+		(fallback) => fallback !== provider && isProviderConfigured(fallback, env) && supportsCapabilities(fallback, required),
+	);
+	return [provider, ...new Set(fallbacks)];
 }
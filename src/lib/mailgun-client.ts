@@ -0,0 +1,81 @@
+import { ConfigurationError } from '../errors';
+import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { getStringField, providerFetch, toProviderResponse } from './provider-transport';
+
+/**
+ * Decode base64 content into a Blob for multipart upload
+ */
+const toBlob = (content: string, contentType: string) => {
+	const bytes = Uint8Array.from(atob(content), (char) => char.charCodeAt(0));
+	return new Blob([bytes], { type: contentType });
+};
+
+const send = async (
+	{ to, from, replyTo, cc, bcc, headers, subject, text, html, attachments }: EmailProviderParams,
+	env: Env,
+): Promise<ProviderResponse> => {
+	const apiKey = env.MAILGUN_API_KEY;
+	const domain = env.MAILGUN_DOMAIN;
+	// US region by default, set to https://api.eu.mailgun.net for EU domains
+	const baseUrl = env.MAILGUN_API_BASE_URL || 'https://api.mailgun.net';
+
+	if (!apiKey || !domain) {
+		throw new ConfigurationError('Mailgun API key or domain not configured');
+	}
+
+	// Mailgun takes multipart form data, with custom headers as h: fields
+	const form = new FormData();
+	form.append('from', from);
+	(Array.isArray(to) ? to : [to]).forEach((recipient) => form.append('to', recipient));
+	cc?.forEach((recipient) => form.append('cc', recipient));
+	bcc?.forEach((recipient) => form.append('bcc', recipient));
+	form.append('subject', subject);
+	form.append('text', text);
+	if (html) {
+		form.append('html', html);
+	}
+	if (replyTo) {
+		form.append('h:Reply-To', replyTo);
+	}
+	Object.entries(headers ?? {}).forEach(([name, value]) => form.append(`h:${name}`, value));
+	// Inline attachments are referenced by their file name, so it must be the content ID
+	attachments?.forEach((attachment) => {
+		const blob = toBlob(attachment.content, attachment.contentType);
+		if (attachment.contentId) {
+			form.append('inline', blob, attachment.contentId);
+		} else {
+			form.append('attachment', blob, attachment.filename);
+		}
+	});
+
+	try {
+		const response = await providerFetch(
+			'Mailgun',
+			`${baseUrl}/v3/${domain}/messages`,
+			{
+				method: 'POST',
+				headers: {
+					Authorization: `Basic ${btoa(`api:${apiKey}`)}`,
+				},
+				body: form,
+			},
+			{ getErrorMessage: (body) => getStringField(body, 'message') },
+		);
+
+		const data = (await response.json()) as { id?: string };
+		return { code: 201, message: `Email sent to ${JSON.stringify(to)}: ${data.id}`, data: { id: data.id }, retriable: false };
+	} catch (error) {
+		return toProviderResponse(error);
+	}
+};
+
+export const mailgunProvider: EmailProviderDefinition = {
+	name: 'mailgun',
+	displayName: 'Mailgun',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: true },
+	requiredSecrets: ['MAILGUN_API_KEY', 'MAILGUN_DOMAIN'],
+};
+
+export default send;
@@ -0,0 +1,201 @@
+/**
+ * MIME Message Parser
+ *
+ * Parses inbound RFC 5322 / MIME messages: headers (with RFC 2047 encoded
+ * words), multipart bodies and base64 or quoted-printable content.
+ */
+
+/**
+ * A parsed MIME entity and its sub-parts
+ */
+export interface MimePart {
+	headers: Map<string, string[]>; // Keyed by lower-cased header name
+	contentType: string; // Lower-cased type/subtype
+	params: Record<string, string>; // Content-Type parameters, lower-cased names
+	disposition?: string; // Lower-cased Content-Disposition type
+	body: string; // Decoded text for text/* parts, a binary string otherwise
+	parts: MimePart[];
+}
+
+/**
+ * A parsed message with its main fields
+ */
+export interface ParsedEmail {
+	root: MimePart;
+	subject?: string;
+	from?: string;
+	messageId?: string;
+	inReplyTo?: string;
+	text?: string;
+	html?: string;
+}
+
+/**
+ * Convert raw bytes to a binary string (one character per byte)
+ */
+function toBinaryString(bytes: Uint8Array): string {
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return binary;
+}
+
+/**
+ * Decode a binary string in the given charset, falling back to UTF-8
+ */
+function decodeCharset(binary: string, charset = 'utf-8'): string {
+	const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	try {
+		return new TextDecoder(charset).decode(bytes);
+	} catch {
+		return new TextDecoder().decode(bytes);
+	}
+}
+
+/**
+ * Decode quoted-printable content to a binary string
+ */
+function decodeQuotedPrintable(value: string): string {
+	return value.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Decode base64 content to a binary string, ignoring line breaks and invalid characters
+ */
+function decodeBase64(value: string): string {
+	try {
+		return atob(value.replace(/[^A-Za-z0-9+/=]/g, ''));
+	} catch {
+		return '';
+	}
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value
+ */
+export function decodeHeaderValue(value: string): string {
+	return value
+		.replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+		.replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+			const binary = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+			return decodeCharset(binary, charset);
+		});
+}
+
+/**
+ * Split a header value into its main value and parameters, e.g. text/plain; charset=utf-8
+ */
+function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+	const [main, ...rest] = value.split(';');
+	const params: Record<string, string> = {};
+
+	for (const match of rest.join(';').matchAll(/([\w.*-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;\s]+))/g)) {
+		params[match[1].toLowerCase()] = match[2]?.replace(/\\(.)/g, '$1') ?? match[3];
+	}
+
+	return { value: main.trim().toLowerCase(), params };
+}
+
+/**
+ * Parse a header block, unfolding continuation lines
+ */
+function parseHeaders(block: string): Map<string, string[]> {
+	const headers = new Map<string, string[]>();
+
+	for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+		const separator = line.indexOf(':');
+		if (separator <= 0) {
+			continue;
+		}
+
+		const name = line.slice(0, separator).trim().toLowerCase();
+		headers.set(name, [...(headers.get(name) ?? []), line.slice(separator + 1).trim()]);
+	}
+
+	return headers;
+}
+
+/**
+ * Parse a MIME entity from a binary string
+ */
+function parsePart(raw: string, defaultType = 'text/plain'): MimePart {
+	const match = /\r?\n\r?\n/.exec(raw);
+	const headerBlock = match ? raw.slice(0, match.index) : raw;
+	const content = match ? raw.slice(match.index + match[0].length) : '';
+
+	const headers = parseHeaders(headerBlock);
+	const { value: contentType, params } = parseHeaderParams(headers.get('content-type')?.[0] ?? defaultType);
+	const disposition = headers.has('content-disposition') ? parseHeaderParams(headers.get('content-disposition')![0]).value : undefined;
+
+	if (contentType.startsWith('multipart/') && params.boundary) {
+		// digest parts default to message/rfc822 rather than text/plain
+		const partType = contentType === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+		const delimiter = `--${params.boundary}`;
+		const sections = content.split(new RegExp(`(?:^|\\r?\\n)${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+
+		// Skip the preamble, and stop at the closing delimiter
+		const parts: MimePart[] = [];
+		for (const section of sections.slice(1)) {
+			if (section.startsWith('--')) {
+				break;
+			}
+			parts.push(parsePart(section.replace(/^[ \t]*\r?\n/, ''), partType));
+		}
+
+		return { headers, contentType, params, disposition, body: '', parts };
+	}
+
+	const encoding = headers.get('content-transfer-encoding')?.[0].trim().toLowerCase();
+	const decoded =
+		encoding === 'base64' ? decodeBase64(content) : encoding === 'quoted-printable' ? decodeQuotedPrintable(content) : content;
+	const body = contentType.startsWith('text/') ? decodeCharset(decoded, params.charset) : decoded;
+
+	return { headers, contentType, params, disposition, body, parts: [] };
+}
+
+/**
+ * Find the first part of a content type, depth first
+ *
+ * @param part - Part to search from
+ * @param contentType - Lower-cased type/subtype
+ * @param inlineOnly - Skip parts marked as attachments
+ */
+export function findPart(part: MimePart, contentType: string, inlineOnly = false): MimePart | undefined {
+	if (part.contentType === contentType && !(inlineOnly && part.disposition === 'attachment')) {
+		return part;
+	}
+
+	for (const child of part.parts) {
+		const found = findPart(child, contentType, inlineOnly);
+		if (found) {
+			return found;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Parse a raw MIME message
+ *
+ * @param raw - Raw message bytes
+ * @returns The parsed message, with the first text and HTML bodies found
+ */
+export function parseMimeMessage(raw: Uint8Array): ParsedEmail {
+	const root = parsePart(toBinaryString(raw));
+	const header = (name: string) => {
+		const value = root.headers.get(name)?.[0];
+		return value === undefined ? undefined : decodeHeaderValue(value);
+	};
+
+	return {
+		root,
+		subject: header('subject'),
+		from: header('from'),
+		messageId: header('message-id'),
+		inReplyTo: header('in-reply-to'),
+		text: findPart(root, 'text/plain', true)?.body,
+		html: findPart(root, 'text/html', true)?.body,
+	};
+}
@@ -0,0 +1,155 @@
+/**
+ * MIME Message Builder
+ *
+ * Builds RFC 5322 / MIME messages from the provider send parameters, for
+ * providers that take raw messages instead of a JSON API.
+ */
+
+import { ValidationError } from '../errors';
+import type { EmailProviderParams } from './email-provider';
+
+const CRLF = '\r\n';
+
+/**
+ * Base64 encode a UTF-8 string
+ */
+export function encodeBase64(value: string): string {
+	const bytes = new TextEncoder().encode(value);
+	let binary = '';
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary);
+}
+
+/**
+ * Wrap base64 content at 76 characters per line, as MIME requires
+ */
+function wrapBase64(content: string): string {
+	return (content.replace(/\s/g, '').match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word if it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+	return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${encodeBase64(value)}?=`;
+}
+
+/**
+ * Reject a header value that would start a new header line
+ */
+function assertSingleLine(value: string, field: string): void {
+	if (/[\r\n]/.test(value)) {
+		throw new ValidationError(`Line break in ${field}`);
+	}
+}
+
+/**
+ * Format an address for a header, encoding a non-ASCII display name
+ */
+export function encodeAddress(address: string): string {
+	assertSingleLine(address, 'address');
+	const match = address.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+	if (!match) {
+		return address.trim();
+	}
+
+	const [, name, email] = match;
+	return name ? `${encodeHeaderValue(name)} <${email}>` : `<${email}>`;
+}
+
+/**
+ * Format a file name parameter, RFC 2231 encoded unless it is printable ASCII that can be quoted as is
+ */
+function formatFilenameParameter(name: string, filename: string): string {
+	if (/^[\x20-\x7e]*$/.test(filename) && !/["\\]/.test(filename)) {
+		return `${name}="${filename}"`;
+	}
+
+	// encodeURIComponent leaves ' ( ) * unescaped, which are not allowed in RFC 2231 values
+	const encoded = encodeURIComponent(filename).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+	return `${name}*=UTF-8''${encoded}`;
+}
+
+/**
+ * Generate a random MIME boundary
+ */
+function createBoundary(): string {
+	return `----=_Part_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+/**
+ * Build a single base64 encoded MIME part
+ */
+function buildPart(headers: Record<string, string>, base64Content: string): string {
+	const headerLines = Object.entries(headers).map(([name, value]) => `${name}: ${value}`);
+	return [...headerLines, 'Content-Transfer-Encoding: base64', '', wrapBase64(base64Content)].join(CRLF);
+}
+
+/**
+ * Join parts into a multipart body with the given boundary
+ */
+function buildMultipart(boundary: string, parts: string[]): string {
+	return [...parts.map((part) => `--${boundary}${CRLF}${part}`), `--${boundary}--`].join(CRLF);
+}
+
+/**
+ * Build a complete MIME message
+ *
+ * The text and HTML bodies form a multipart/alternative part, wrapped in
+ * multipart/mixed when there are attachments. Bcc recipients are never written to headers.
+ * Values that would break out of their header line are rejected with a ValidationError.
+ *
+ * @param params - Email send parameters
+ * @param messageId - Value for the Message-ID header, without angle brackets
+ * @returns The message with CRLF line endings
+ */
+export function buildMimeMessage(params: EmailProviderParams, messageId: string): string {
+	const { to, from, replyTo, cc, headers, subject, text, html, attachments } = params;
+	const recipients = Array.isArray(to) ? to : [to];
+
+	const headerLines = [
+		`From: ${encodeAddress(from)}`,
+		`To: ${recipients.map(encodeAddress).join(', ')}`,
+		...(cc?.length ? [`Cc: ${cc.map(encodeAddress).join(', ')}`] : []),
+		...(replyTo ? [`Reply-To: ${encodeAddress(replyTo)}`] : []),
+		`Subject: ${encodeHeaderValue(subject)}`,
+		`Date: ${new Date().toUTCString()}`,
+		`Message-ID: <${messageId}>`,
+		'MIME-Version: 1.0',
+		...Object.entries(headers ?? {}).map(([name, value]) => {
+			assertSingleLine(`${name}${value}`, `header ${name}`);
+			return `${name}: ${value}`;
+		}),
+	];
+
+	const alternativeBoundary = createBoundary();
+	const alternative = buildMultipart(alternativeBoundary, [
+		buildPart({ 'Content-Type': 'text/plain; charset=UTF-8' }, encodeBase64(text)),
+		...(html ? [buildPart({ 'Content-Type': 'text/html; charset=UTF-8' }, encodeBase64(html))] : []),
+	]);
+	const alternativeType = `multipart/alternative; boundary="${alternativeBoundary}"`;
+
+	if (!attachments?.length) {
+		return [...headerLines, `Content-Type: ${alternativeType}`, '', alternative, ''].join(CRLF);
+	}
+
+	const mixedBoundary = createBoundary();
+	const mixed = buildMultipart(mixedBoundary, [
+		`Content-Type: ${alternativeType}${CRLF}${CRLF}${alternative}`,
+		...attachments.map((attachment) => {
+			assertSingleLine(`${attachment.contentType}${attachment.contentId ?? ''}`, `attachment ${attachment.filename}`);
+			return buildPart(
+				{
+					'Content-Type': `${attachment.contentType}; ${formatFilenameParameter('name', attachment.filename)}`,
+					'Content-Disposition': `${attachment.contentId ? 'inline' : 'attachment'}; ${formatFilenameParameter('filename', attachment.filename)}`,
+					...(attachment.contentId && { 'Content-ID': `<${attachment.contentId}>` }),
+				},
+				attachment.content,
+			);
+		}),
+	]);
+
+	return [...headerLines, `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`, '', mixed, ''].join(CRLF);
+}
@@ -0,0 +1,77 @@
+import { ConfigurationError } from '../errors';
+import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { getField, getStringField, providerFetch, toProviderResponse } from './provider-transport';
+
+const send = async (
+	{ to, from, replyTo, cc, bcc, headers, subject, text, html, attachments }: EmailProviderParams,
+	env: Env,
+): Promise<ProviderResponse> => {
+	const serverToken = env.POSTMARK_SERVER_TOKEN;
+	// Can point at a proxy or a local test server
+	const baseUrl = env.POSTMARK_API_BASE_URL || 'https://api.postmarkapp.com';
+
+	if (!serverToken) {
+		throw new ConfigurationError('Postmark server token not configured');
+	}
+
+	// Postmark takes comma-separated address lists
+	const payload = {
+		From: from,
+		To: Array.isArray(to) ? to.join(', ') : to,
+		...(cc?.length && { Cc: cc.join(', ') }),
+		...(bcc?.length && { Bcc: bcc.join(', ') }),
+		...(replyTo && { ReplyTo: replyTo }),
+		Subject: subject,
+		TextBody: text,
+		...(html && { HtmlBody: html }),
+		MessageStream: 'outbound',
+		...(headers && { Headers: Object.entries(headers).map(([Name, Value]) => ({ Name, Value })) }),
+		...(attachments?.length && {
+			Attachments: attachments.map((attachment) => ({
+				Name: attachment.filename,
+				Content: attachment.content,
+				ContentType: attachment.contentType,
+				...(attachment.contentId && { ContentID: `cid:${attachment.contentId}` }),
+			})),
+		}),
+	};
+
+	try {
+		const response = await providerFetch(
+			'Postmark',
+			`${baseUrl}/email`,
+			{
+				method: 'POST',
+				headers: {
+					Accept: 'application/json',
+					'Content-Type': 'application/json',
+					'X-Postmark-Server-Token': serverToken,
+				},
+				body: JSON.stringify(payload),
+			},
+			// Postmark reports request and recipient problems as 422 with its own error code
+			{
+				getErrorMessage: (body) => {
+					const message = getStringField(body, 'Message');
+					return message && `${message} (error code ${getField(body, 'ErrorCode')})`;
+				},
+			},
+		);
+
+		const data = (await response.json()) as { MessageID?: string };
+		return { code: 201, message: `Email sent to ${JSON.stringify(to)}: ${data.MessageID}`, data: { id: data.MessageID }, retriable: false };
+	} catch (error) {
+		return toProviderResponse(error);
+	}
+};
+
+export const postmarkProvider: EmailProviderDefinition = {
+	name: 'postmark',
+	displayName: 'Postmark',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: true },
+	requiredSecrets: ['POSTMARK_SERVER_TOKEN'],
+};
+
+export default send;
@@ -0,0 +1,172 @@
+/**
+ * Provider HTTP Transport
+ *
+ * Shared request handling for provider API clients: enforces a timeout, turns
+ * error responses into typed errors and converts any error into a provider response.
+ */
+
+import { HTTP_CONFIG } from '../config';
+import { ApplicationError, isRetriableStatusCode, NetworkError, normalizeError, ProviderError, RateLimitError } from '../errors';
+import type { ProviderResponse } from '../types';
+
+/**
+ * Options for a provider API request
+ */
+export interface ProviderRequestOptions {
+	// Fetch implementation, e.g. a request signing client (defaults to the global fetch)
+	fetcher?: (url: string, init: RequestInit) => Promise<Response>;
+	// Extract the provider's error description from a JSON error body
+	getErrorMessage?: (body: unknown) => string | undefined;
+	// Request timeout in milliseconds
+	timeout?: number;
+}
+
+// Messages used when the provider does not describe the error
+const DEFAULT_ERROR_MESSAGES: Record<number, string> = {
+	400: 'Incorrect parameters',
+	401: 'The API key is missing or invalid',
+	403: 'The API key is missing or invalid',
+	404: 'Not found',
+	413: 'Payload too large',
+	422: 'Validation error',
+	429: 'Too many requests',
+};
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @returns Seconds to wait, or undefined if missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	if (/^\d+$/.test(value.trim())) {
+		return parseInt(value, 10);
+	}
+
+	const date = Date.parse(value);
+	return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Read a field of a JSON error body
+ *
+ * @param body - Parsed error body, of any shape
+ * @param field - Field name
+ * @returns The field's value, or undefined if the body is not an object
+ */
+export function getField(body: unknown, field: string): unknown {
+	return typeof body === 'object' && body !== null ? (body as Record<string, unknown>)[field] : undefined;
+}
+
+/**
+ * Read a string field of a JSON error body
+ *
+ * @returns The field's value, or undefined if it is missing or not a string
+ */
+export function getStringField(body: unknown, field: string): string | undefined {
+	const value = getField(body, field);
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Describe an error response, preferring the provider's own message
+ */
+async function getErrorDescription(response: Response, getErrorMessage: ProviderRequestOptions['getErrorMessage']): Promise<string> {
+	let detail: string | undefined;
+	if (getErrorMessage) {
+		const body = await response.text().catch(() => '');
+		try {
+			detail = body ? getErrorMessage(JSON.parse(body)) : undefined;
+		} catch {
+			// Not a JSON body, use the default message
+		}
+	}
+
+	return (
+		detail ||
+		DEFAULT_ERROR_MESSAGES[response.status] ||
+		(response.status >= 500 ? 'Server error' : `Unexpected response: ${response.status}`)
+	);
+}
+
+/**
+ * Send a request to a provider API
+ *
+ * Error responses are thrown as typed errors: 429 as RateLimitError, other statuses
+ * as ProviderError (retriable for server errors), timeouts and connection failures
+ * as NetworkError. Retry-After is kept on the error when the provider sends it.
+ *
+ * The timeout covers the whole response, body included: the body is read before
+ * returning, so a provider that stalls part way through it still times out.
+ *
+ * @param provider - Provider name for error messages
+ * @param url - Request URL
+ * @param init - Request options
+ * @param options - Transport options
+ * @returns The successful (2xx) response, with its body already read
+ */
+export async function providerFetch(
+	provider: string,
+	url: string,
+	init: RequestInit,
+	options: ProviderRequestOptions = {},
+): Promise<Response> {
+	const { fetcher = (input, requestInit) => fetch(input, requestInit), getErrorMessage, timeout = HTTP_CONFIG.DEFAULT_TIMEOUT } = options;
+
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeout);
+
+	try {
+		const response = await fetcher(url, { ...init, signal: controller.signal });
+
+		if (response.ok) {
+			const body = await response.arrayBuffer();
+			return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+		}
+
+		const message = await getErrorDescription(response, getErrorMessage);
+		const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+		if (response.status === 429) {
+			throw new RateLimitError(`${provider} rate limit exceeded: ${message}`, retryAfter);
+		}
+
+		throw new ProviderError(provider, message, response.status, isRetriableStatusCode(response.status), retryAfter);
+	} catch (error) {
+		if (error instanceof ApplicationError) {
+			throw error;
+		}
+
+		if (controller.signal.aborted) {
+			throw new NetworkError(`${provider} request timed out after ${timeout}ms`);
+		}
+
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		throw new NetworkError(`${provider} request failed: ${errorMessage}`);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Convert an error from a provider call into a provider response
+ *
+ * @param error - Any error thrown while sending
+ * @returns Failed provider response with the error's code and retriability
+ */
+export function toProviderResponse(error: unknown): ProviderResponse {
+	const normalized = normalizeError(error);
+	const retryAfter = normalized instanceof ProviderError || normalized instanceof RateLimitError ? normalized.retryAfter : undefined;
+
+	console.error(normalized.message);
+	return {
+		code: normalized.code,
+		message: normalized.message,
+		retriable: normalized.retriable,
+		...(retryAfter !== undefined && { retryAfter }),
+	};
+}
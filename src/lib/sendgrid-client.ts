@@ -0,0 +1,90 @@
+import { ConfigurationError } from '../errors';
+import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { getField, getStringField, providerFetch, toProviderResponse } from './provider-transport';
+import { getEmail } from './utils';
+
+const send = async (
+	{ to, from, replyTo, cc, bcc, headers, subject, text, html, attachments }: EmailProviderParams,
+	env: Env,
+): Promise<ProviderResponse> => {
+	const apiKey = env.SENDGRID_API_KEY;
+	// Global region by default, set to https://api.eu.sendgrid.com for EU subusers
+	const baseUrl = env.SENDGRID_API_BASE_URL || 'https://api.sendgrid.com';
+
+	if (!apiKey) {
+		throw new ConfigurationError('SendGrid API key not configured');
+	}
+
+	// Format addresses for SendGrid API
+	const toAddress = (email: string) => {
+		const address = getEmail(email);
+		return { name: address.displayName, email: address.emailAddress };
+	};
+
+	// SendGrid rejects empty content values, and text/plain must come first
+	const content = [
+		{ type: 'text/plain', value: text },
+		{ type: 'text/html', value: html },
+	].filter(({ value }) => Boolean(value));
+
+	const payload = {
+		personalizations: [
+			{
+				to: (Array.isArray(to) ? to : [to]).map(toAddress),
+				...(cc?.length && { cc: cc.map(toAddress) }),
+				...(bcc?.length && { bcc: bcc.map(toAddress) }),
+			},
+		],
+		from: toAddress(from),
+		...(replyTo && { reply_to: toAddress(replyTo) }),
+		subject,
+		content,
+		...(headers && { headers }),
+		...(attachments?.length && {
+			attachments: attachments.map((attachment) => ({
+				filename: attachment.filename,
+				content: attachment.content,
+				type: attachment.contentType,
+				disposition: attachment.contentId ? 'inline' : 'attachment',
+				...(attachment.contentId && { content_id: attachment.contentId }),
+			})),
+		}),
+	};
+
+	try {
+		const response = await providerFetch(
+			'SendGrid',
+			`${baseUrl}/v3/mail/send`,
+			{
+				method: 'POST',
+				headers: {
+					Authorization: `Bearer ${apiKey}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(payload),
+			},
+			{
+				getErrorMessage: (body) => {
+					const errors = getField(body, 'errors');
+					return Array.isArray(errors) ? errors.map((error) => getStringField(error, 'message')).join('; ') : undefined;
+				},
+			},
+		);
+
+		const id = response.headers.get('x-message-id') || undefined;
+		return { code: 201, message: `Email sent to ${JSON.stringify(to)}: ${id}`, data: { id }, retriable: false };
+	} catch (error) {
+		return toProviderResponse(error);
+	}
+};
+
+export const sendGridProvider: EmailProviderDefinition = {
+	name: 'sendgrid',
+	displayName: 'SendGrid',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: true },
+	requiredSecrets: ['SENDGRID_API_KEY'],
+};
+
+export default send;
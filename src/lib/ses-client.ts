@@ -1,11 +1,14 @@
 import { AwsClient } from 'aws4fetch';
 
+import { ConfigurationError } from '../errors';
 import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { getStringField, providerFetch, toProviderResponse } from './provider-transport';
 
 let aws: AwsClient | null = null;
 
 const send = async (
-	{ to, from, subject, text, html }: { to: string | string[]; from: string; subject: string; text: string; html: string },
+	{ to, from, replyTo, cc, bcc, headers, subject, text, html, attachments }: EmailProviderParams,
 	env: Env,
 ): Promise<ProviderResponse> => {
 	const accessKey = env.AWS_ACCESS_KEY_ID;
@@ -13,7 +16,7 @@ const send = async (
 	const region = env.AWS_REGION ?? 'us-west-2';
 
 	if (!accessKey || !secretKey) {
-		throw new Error('AWS access key or secret key not configured');
+		throw new ConfigurationError('AWS access key or secret key not configured');
 	}
 
 	// Create an AwsClient instance
@@ -23,78 +26,79 @@ const send = async (
 			secretAccessKey: secretKey,
 			region: region,
 			service: 'ses',
+			// Retries are left to the retry service and provider failover
+			retries: 0,
 		});
 	}
 
-	// Create JSON payload instead of URLSearchParams
+	// SES v2 SendEmail payload with simple content
 	const payload = {
-		Action: 'SendEmail',
-		Source: from,
+		FromEmailAddress: from,
 		Destination: {
 			ToAddresses: Array.isArray(to) ? to : [to],
+			...(cc?.length && { CcAddresses: cc }),
+			...(bcc?.length && { BccAddresses: bcc }),
 		},
-		Message: {
-			Subject: {
-				Data: subject,
-			},
-			Body: {
-				Text: {
-					Data: text,
+		...(replyTo && { ReplyToAddresses: [replyTo] }),
+		Content: {
+			Simple: {
+				Subject: {
+					Data: subject,
 				},
-				Html: {
-					Data: html,
+				Body: {
+					Text: {
+						Data: text,
+					},
+					Html: {
+						Data: html,
+					},
 				},
+				...(headers && {
+					Headers: Object.entries(headers).map(([Name, Value]) => ({ Name, Value })),
+				}),
+				...(attachments?.length && {
+					Attachments: attachments.map((attachment) => ({
+						FileName: attachment.filename,
+						ContentType: attachment.contentType,
+						RawContent: attachment.content,
+						ContentTransferEncoding: 'BASE64',
+						ContentDisposition: attachment.contentId ? 'INLINE' : 'ATTACHMENT',
+						...(attachment.contentId && { ContentId: attachment.contentId }),
+					})),
+				}),
 			},
 		},
 	};
 
 	try {
-		// Send the email using SES
-		const response = await aws.fetch(`https://email.${region}.amazonaws.com/v2/email/outbound-emails`, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
+		// Send the email using SES, signing the request with the AWS credentials
+		const response = await providerFetch(
+			'AWS SES',
+			`https://email.${region}.amazonaws.com/v2/email/outbound-emails`,
+			{
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify(payload),
 			},
-			body: JSON.stringify(payload),
-		});
-
-		if (response.status === 200 || response.status === 201) {
-			const data = await response.json();
-			const id = (data as { MessageId?: string }).MessageId;
-			console.info(`Email sent to ${JSON.stringify(to)}, message id: ${id}"`);
-			return { code: 201, message: `Email sent to ${JSON.stringify(to)}`, data: { id }, retriable: false };
-		}
-
-		// Handle specific AWS SES error codes
-		if (response.status === 400) {
-			console.error(`Bad request - invalid parameters for ${JSON.stringify(to)}`);
-			return { code: 400, message: 'Invalid parameters', retriable: false };
-		}
+			{ fetcher: (url, init) => aws!.fetch(url, init), getErrorMessage: (body) => getStringField(body, 'message') },
+		);
 
-		if (response.status === 403) {
-			console.error('AWS credentials invalid or insufficient permissions');
-			return { code: 403, message: 'Authentication/authorization error', retriable: false };
-		}
-
-		if (response.status === 429) {
-			console.error('AWS SES rate limit exceeded');
-			return { code: 429, message: 'Rate limit exceeded', retriable: true };
-		}
-
-		// Server errors (500+) are retriable
-		if (response.status >= 500) {
-			console.error(`AWS SES server error: ${response.status}`);
-			return { code: response.status, message: 'Server error', retriable: true };
-		}
-
-		console.error(`Failed to send email to ${JSON.stringify(to)} for "${subject}", status: ${response.status}`);
-		return { code: 500, message: `Failed to send email to ${JSON.stringify(to)}`, retriable: true };
+		const data = (await response.json()) as { MessageId?: string };
+		console.info(`Email sent to ${JSON.stringify(to)}, message id: ${data.MessageId}`);
+		return { code: 201, message: `Email sent to ${JSON.stringify(to)}`, data: { id: data.MessageId }, retriable: false };
 	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		console.error(`Network or unknown error: ${errorMessage}`);
-		// Network errors are retriable
-		return { code: 500, message: errorMessage, retriable: true };
+		return toProviderResponse(error);
 	}
 };
 
+export const sesProvider: EmailProviderDefinition = {
+	name: 'ses',
+	displayName: 'AWS SES',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: false },
+	requiredSecrets: ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY'],
+};
+
 export default send;
@@ -0,0 +1,250 @@
+import { connect } from 'cloudflare:sockets';
+
+import { SMTP_CONFIG } from '../config';
+import { ConfigurationError, ProviderError, ValidationError } from '../errors';
+import type { ProviderResponse } from '../types';
+import type { EmailProviderDefinition, EmailProviderParams } from './email-provider';
+import { buildMimeMessage, encodeBase64 } from './mime';
+import { toProviderResponse } from './provider-transport';
+import { getEmailAddress } from './utils';
+
+interface SmtpReply {
+	code: number;
+	lines: string[];
+}
+
+/**
+ * Map an SMTP reply to a provider error
+ *
+ * 4xx replies are transient and worth retrying (possibly on another provider),
+ * 5xx replies are permanent. Codes are translated to their HTTP equivalents so
+ * the result reads like every other provider's.
+ */
+const toProviderError = (reply: SmtpReply): ProviderError => {
+	const message = `${reply.code} ${reply.lines.join(' ')}`;
+
+	if (reply.code >= 400 && reply.code < 500) {
+		return new ProviderError('SMTP', message, 503, true);
+	}
+
+	if (reply.code === 530 || reply.code === 535) {
+		return new ProviderError('SMTP', message, 401, false);
+	}
+
+	if (reply.code === 552) {
+		return new ProviderError('SMTP', message, 413, false);
+	}
+
+	return new ProviderError('SMTP', message, 422, false);
+};
+
+/**
+ * Line oriented SMTP session over a Workers TCP socket
+ */
+class SmtpSession {
+	private reader!: ReadableStreamDefaultReader<Uint8Array>;
+	private writer!: WritableStreamDefaultWriter<Uint8Array>;
+	private buffer = '';
+	private readonly decoder = new TextDecoder();
+	private readonly encoder = new TextEncoder();
+
+	constructor(private socket: Socket) {
+		this.attach(socket);
+	}
+
+	private attach(socket: Socket) {
+		this.socket = socket;
+		this.reader = socket.readable.getReader();
+		this.writer = socket.writable.getWriter();
+	}
+
+	private async readLine(): Promise<string> {
+		let index = this.buffer.indexOf('\r\n');
+		while (index === -1) {
+			const { value, done } = await this.reader.read();
+			if (done) {
+				throw new Error('SMTP connection closed by server');
+			}
+			this.buffer += this.decoder.decode(value, { stream: true });
+			index = this.buffer.indexOf('\r\n');
+		}
+
+		const line = this.buffer.slice(0, index);
+		this.buffer = this.buffer.slice(index + 2);
+		return line;
+	}
+
+	/**
+	 * Read a (possibly multi-line) reply, e.g. "250-first", "250 last"
+	 */
+	async readReply(): Promise<SmtpReply> {
+		const lines: string[] = [];
+		for (;;) {
+			const line = await this.readLine();
+			const code = parseInt(line.slice(0, 3), 10);
+			if (isNaN(code)) {
+				throw new Error(`Malformed SMTP reply: ${line}`);
+			}
+			lines.push(line.slice(4));
+			if (line.charAt(3) !== '-') {
+				return { code, lines };
+			}
+		}
+	}
+
+	/**
+	 * Read a reply and throw a provider error unless it has the expected code
+	 */
+	async expect(expected: number): Promise<SmtpReply> {
+		const reply = await this.readReply();
+		if (reply.code !== expected) {
+			throw toProviderError(reply);
+		}
+		return reply;
+	}
+
+	async write(data: string) {
+		await this.writer.write(this.encoder.encode(data));
+	}
+
+	async command(line: string, expected: number): Promise<SmtpReply> {
+		// A line break would let the argument inject further commands
+		if (/[\r\n]/.test(line)) {
+			throw new ValidationError('Line break in SMTP command');
+		}
+		await this.write(`${line}\r\n`);
+		return this.expect(expected);
+	}
+
+	/**
+	 * Upgrade the connection to TLS after a successful STARTTLS command
+	 */
+	startTls(hostname: string) {
+		this.reader.releaseLock();
+		this.writer.releaseLock();
+		this.buffer = '';
+		this.attach(this.socket.startTls({ expectedServerHostname: hostname }));
+	}
+
+	async close() {
+		await this.socket.close().catch(() => undefined);
+	}
+}
+
+/**
+ * Parse EHLO reply lines into the set of advertised extensions (upper-cased)
+ */
+const parseExtensions = (reply: SmtpReply) => reply.lines.slice(1).map((line) => line.toUpperCase());
+
+/**
+ * Escape lines starting with a dot and terminate the DATA section
+ */
+const toDataSection = (message: string) => {
+	const stuffed = message.replace(/(^|\r\n)\./g, '$1..');
+	return `${stuffed}${stuffed.endsWith('\r\n') ? '' : '\r\n'}.\r\n`;
+};
+
+/**
+ * Authenticate with AUTH PLAIN when offered, AUTH LOGIN otherwise
+ */
+const authenticate = async (session: SmtpSession, extensions: string[], username: string, password: string) => {
+	const mechanisms = extensions.find((extension) => extension.startsWith('AUTH'))?.split(/[\s=]+/) ?? [];
+
+	if (mechanisms.includes('PLAIN') || !mechanisms.includes('LOGIN')) {
+		await session.command(`AUTH PLAIN ${encodeBase64(`\0${username}\0${password}`)}`, 235);
+		return;
+	}
+
+	await session.command('AUTH LOGIN', 334);
+	await session.command(encodeBase64(username), 334);
+	await session.command(encodeBase64(password), 235);
+};
+
+const send = async (params: EmailProviderParams, env: Env): Promise<ProviderResponse> => {
+	const { to, from, cc, bcc } = params;
+	const hostname = env.SMTP_HOST;
+	const port = parseInt(env.SMTP_PORT, 10) || SMTP_CONFIG.DEFAULT_PORT;
+	// starttls (default), tls for implicit TLS (port 465), none for local test servers
+	const security = env.SMTP_SECURITY || 'starttls';
+
+	if (!hostname) {
+		throw new ConfigurationError('SMTP host not configured');
+	}
+
+	const sender = getEmailAddress(from);
+	const recipients = [...(Array.isArray(to) ? to : [to]), ...(cc ?? []), ...(bcc ?? [])].map(getEmailAddress);
+	const domain = sender.split('@')[1] ?? 'localhost';
+	const messageId = `${crypto.randomUUID()}@${domain}`;
+
+	// Check everything that goes into commands and the message before connecting
+	let data: string;
+	try {
+		const invalid = [sender, ...recipients].find((address) => /[\s<>]/.test(address));
+		if (invalid !== undefined) {
+			throw new ValidationError(`Invalid SMTP address: ${JSON.stringify(invalid)}`);
+		}
+		data = toDataSection(buildMimeMessage(params, messageId));
+	} catch (error) {
+		return toProviderResponse(error);
+	}
+
+	const socket = connect(
+		{ hostname, port },
+		{ secureTransport: security === 'tls' ? 'on' : security === 'none' ? 'off' : 'starttls', allowHalfOpen: false },
+	);
+	const session = new SmtpSession(socket);
+	let timeout: ReturnType<typeof setTimeout> | null = null;
+
+	const conversation = async () => {
+		await session.expect(220);
+		let extensions = parseExtensions(await session.command(`EHLO ${domain}`, 250));
+
+		if (security === 'starttls') {
+			if (!extensions.includes('STARTTLS')) {
+				throw new ProviderError('SMTP', `${hostname} does not support STARTTLS`, 502, false);
+			}
+			await session.command('STARTTLS', 220);
+			session.startTls(hostname);
+			extensions = parseExtensions(await session.command(`EHLO ${domain}`, 250));
+		}
+
+		if (env.SMTP_USERNAME) {
+			await authenticate(session, extensions, env.SMTP_USERNAME, env.SMTP_PASSWORD);
+		}
+
+		await session.command(`MAIL FROM:<${sender}>`, 250);
+		for (const recipient of recipients) {
+			await session.command(`RCPT TO:<${recipient}>`, 250);
+		}
+		await session.command('DATA', 354);
+		await session.write(data);
+		await session.expect(250);
+		await session.command('QUIT', 221).catch(() => undefined);
+	};
+
+	try {
+		await Promise.race([
+			conversation(),
+			new Promise<never>((_, reject) => {
+				timeout = setTimeout(() => reject(new Error('SMTP session timeout')), SMTP_CONFIG.SESSION_TIMEOUT);
+			}),
+		]);
+
+		return { code: 201, message: `Email sent to ${JSON.stringify(to)}: ${messageId}`, data: { id: messageId }, retriable: false };
+	} catch (error) {
+		return toProviderResponse(error);
+	} finally {
+		clearTimeout(timeout);
+		await session.close();
+	}
+};
+
+export const smtpProvider: EmailProviderDefinition = {
+	name: 'smtp',
+	displayName: 'SMTP',
+	send,
+	capabilities: { attachments: true, customHeaders: true, batch: false },
+	requiredSecrets: ['SMTP_HOST'],
+};
+
+export default send;
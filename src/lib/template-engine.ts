@@ -0,0 +1,446 @@
+/**
+ * Template Engine
+ *
+ * Renders template subjects and bodies. The language is deliberately small:
+ *
+ *   {{ name }}                              variable, HTML-escaped in HTML bodies
+ *   {{ order.total | currency: "EUR" }}     nested field, formatted by filters
+ *   {{ name | default: "there" }}           fallback for a missing or empty value
+ *   {{#if paid}}...{{else}}...{{/if}}       conditional
+ *   {{#each items}}...{{else}}...{{/each}}  loop over a list
+ *
+ * Inside {{#each}}, names refer to fields of the current item: `this` is the item
+ * itself, @index, @first and @last give its position and @root.name reads a
+ * top-level variable. Templates cannot run code: they only see the variables'
+ * own fields, never prototypes, and filters come from a fixed list.
+ */
+
+import { TEMPLATE_CONFIG } from '../config';
+import { TemplateError } from '../errors';
+import type { TemplateVariables } from '../types';
+
+type Path = { scope: 'local' | 'root' | 'data'; segments: string[] };
+
+type Filter = { name: string; args: (string | number)[] };
+
+type BlockNode = { type: 'if' | 'each'; path: Path; body: Node[]; inverse: Node[] };
+
+type Node = { type: 'text'; value: string } | { type: 'output'; path: Path; filters: Filter[] } | BlockNode;
+
+/**
+ * A parsed template, ready to render any number of times
+ */
+export interface CompiledTemplate {
+	nodes: Node[];
+}
+
+type Token = { type: 'text'; value: string } | { type: 'tag'; value: string; line: number };
+
+type LoopData = { index: number; first: boolean; last: boolean };
+
+type Scope = { value: unknown; data: LoopData | null };
+
+interface FilterDefinition {
+	maxArgs: number;
+	minArgs?: number;
+	check?: (args: (string | number)[]) => string | null;
+	apply: (value: unknown, args: (string | number)[]) => unknown;
+}
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full', 'iso'];
+
+const FILTERS = new Map<string, FilterDefinition>([
+	[
+		'default',
+		{ minArgs: 1, maxArgs: 1, apply: (value, [fallback]) => (value === undefined || value === null || value === '' ? fallback : value) },
+	],
+	['upper', { maxArgs: 0, apply: (value) => toText(value).toUpperCase() }],
+	['lower', { maxArgs: 0, apply: (value) => toText(value).toLowerCase() }],
+	[
+		'date',
+		{
+			maxArgs: 1,
+			check: ([style = 'medium']) => (DATE_STYLES.includes(String(style)) ? null : `date style must be one of ${DATE_STYLES.join(', ')}`),
+			apply: (value, [style = 'medium']) => formatDate(value, String(style)),
+		},
+	],
+	[
+		'currency',
+		{
+			maxArgs: 1,
+			check: ([code = 'USD']) => (/^[A-Z]{3}$/.test(String(code)) ? null : 'currency code must be three capital letters, like "USD"'),
+			apply: (value, [code = 'USD']) => formatCurrency(value, String(code)),
+		},
+	],
+]);
+
+/**
+ * Text of a value as written into the output; lists, objects and missing values render as nothing
+ */
+function toText(value: unknown): string {
+	if (typeof value === 'string') {
+		return value;
+	}
+	return typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+}
+
+export function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function formatDate(value: unknown, style: string): string {
+	if (value === undefined || value === null || value === '') {
+		return '';
+	}
+
+	const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+	if (isNaN(date.getTime())) {
+		throw new TemplateError(`Invalid date: ${toText(value)}`);
+	}
+
+	if (style === 'iso') {
+		return date.toISOString().slice(0, 10);
+	}
+	return new Intl.DateTimeFormat(TEMPLATE_CONFIG.LOCALE, {
+		dateStyle: style as Intl.DateTimeFormatOptions['dateStyle'],
+		timeZone: TEMPLATE_CONFIG.TIME_ZONE,
+	}).format(date);
+}
+
+function formatCurrency(value: unknown, code: string): string {
+	if (value === undefined || value === null || value === '') {
+		return '';
+	}
+
+	const amount = typeof value === 'string' || typeof value === 'number' ? Number(value) : NaN;
+	if (!Number.isFinite(amount)) {
+		throw new TemplateError(`Invalid amount: ${toText(value)}`);
+	}
+
+	return new Intl.NumberFormat(TEMPLATE_CONFIG.LOCALE, { style: 'currency', currency: code }).format(amount);
+}
+
+/**
+ * Split a template into text and {{tag}} tokens
+ */
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+	let line = 1;
+
+	while (position < source.length) {
+		const open = source.indexOf('{{', position);
+		if (open === -1) {
+			tokens.push({ type: 'text', value: source.slice(position) });
+			break;
+		}
+
+		const text = source.slice(position, open);
+		line += text.split('\n').length - 1;
+		if (text) {
+			tokens.push({ type: 'text', value: text });
+		}
+
+		const close = source.indexOf('}}', open + 2);
+		if (close === -1) {
+			throw new TemplateError(`Unclosed tag at line ${line}`);
+		}
+
+		const tag = source.slice(open + 2, close);
+		tokens.push({ type: 'tag', value: tag.trim(), line });
+		line += tag.split('\n').length - 1;
+		position = close + 2;
+	}
+
+	removeStandaloneLines(tokens);
+	return tokens;
+}
+
+/**
+ * Drop the line of each block tag that stands alone on its line, so blocks
+ * do not leave blank lines in plain text bodies
+ */
+function removeStandaloneLines(tokens: Token[]): void {
+	const isBlockTag = (token: Token) => token.type === 'tag' && /^(#|\/|else$)/.test(token.value);
+
+	// Decide first, then trim, so trimming one tag's line does not change its neighbour's
+	const standalone = tokens.map((token, index) => {
+		if (!isBlockTag(token)) {
+			return false;
+		}
+		const before = tokens[index - 1];
+		const after = tokens[index + 1];
+		const startsLine = !before || (before.type === 'text' && (index === 1 ? /(^|\n)[ \t]*$/ : /\n[ \t]*$/).test(before.value));
+		const endsLine =
+			!after || (after.type === 'text' && (index === tokens.length - 2 ? /^[ \t]*(\r?\n|$)/ : /^[ \t]*\r?\n/).test(after.value));
+		return startsLine && endsLine;
+	});
+
+	standalone.forEach((isStandalone, index) => {
+		if (!isStandalone) {
+			return;
+		}
+		const before = tokens[index - 1];
+		const after = tokens[index + 1];
+		if (before?.type === 'text') {
+			before.value = before.value.replace(/[ \t]*$/, '');
+		}
+		if (after?.type === 'text') {
+			after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '');
+		}
+	});
+}
+
+/**
+ * Parse a variable reference: name.field, this, this.field, @root.name, @index, @first or @last
+ */
+function parsePath(text: string, line: number): Path {
+	if (/^@(index|first|last)$/.test(text)) {
+		return { scope: 'data', segments: [text.slice(1)] };
+	}
+
+	const root = text.startsWith('@root.');
+	const segments = (root ? text.slice('@root.'.length) : text).split('.');
+	if (!root && segments[0] === 'this') {
+		segments.shift();
+	}
+
+	if (segments.some((segment) => !/^[\w-]+$/.test(segment)) || (root && segments.length === 0)) {
+		throw new TemplateError(`Invalid variable "${text}" at line ${line}`);
+	}
+
+	return { scope: root ? 'root' : 'local', segments };
+}
+
+/**
+ * Split an expression on the | characters that are not inside quotes
+ */
+function splitFilters(expression: string): string[] {
+	const parts: string[] = [];
+	let start = 0;
+	let quote: string | null = null;
+
+	for (let i = 0; i < expression.length; i++) {
+		const char = expression[i];
+		if (quote) {
+			if (char === '\\') {
+				i++;
+			} else if (char === quote) {
+				quote = null;
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === '|') {
+			parts.push(expression.slice(start, i));
+			start = i + 1;
+		}
+	}
+
+	parts.push(expression.slice(start));
+	return parts.map((part) => part.trim());
+}
+
+/**
+ * Parse a filter with its arguments, like `currency: "EUR"` or `default: 0`
+ */
+function parseFilter(text: string, line: number): Filter {
+	const match = text.match(/^([\w-]+)\s*(?::\s*([\s\S]*))?$/);
+	const definition = match && FILTERS.get(match[1]);
+	if (!match || !definition) {
+		throw new TemplateError(`Unknown filter "${text}" at line ${line}; filters are ${[...FILTERS.keys()].join(', ')}`);
+	}
+
+	const [, name, argsText] = match;
+	const args: (string | number)[] = [];
+	if (argsText !== undefined) {
+		const argPattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?))\s*(,|$)/y;
+		while (argPattern.lastIndex < argsText.length) {
+			const arg = argPattern.exec(argsText);
+			if (!arg) {
+				throw new TemplateError(`Invalid arguments to filter ${name} at line ${line}; use quoted strings or numbers`);
+			}
+			args.push(arg[3] !== undefined ? Number(arg[3]) : (arg[1] ?? arg[2]).replace(/\\(.)/g, '$1'));
+			if (!arg[4]) {
+				break;
+			}
+		}
+	}
+
+	if (args.length < (definition.minArgs ?? 0) || args.length > definition.maxArgs) {
+		throw new TemplateError(`Wrong number of arguments to filter ${name} at line ${line}`);
+	}
+
+	const error = definition.check?.(args);
+	if (error) {
+		throw new TemplateError(`Invalid filter ${name} at line ${line}: ${error}`);
+	}
+
+	return { name, args };
+}
+
+/**
+ * Build the node tree from tokens, checking that blocks are properly nested
+ */
+function parse(tokens: Token[]): Node[] {
+	const root: Node[] = [];
+	const stack: { node: BlockNode; parent: Node[]; line: number }[] = [];
+	let current = root;
+
+	for (const token of tokens) {
+		if (token.type === 'text') {
+			if (token.value) {
+				current.push({ type: 'text', value: token.value });
+			}
+			continue;
+		}
+
+		const { value: tag, line } = token;
+		const top = stack[stack.length - 1];
+
+		if (tag.startsWith('#')) {
+			const [, keyword, expression] = tag.match(/^#(\S*)\s*([\s\S]*)$/)!;
+			if (keyword !== 'if' && keyword !== 'each') {
+				throw new TemplateError(`Unknown block {{#${keyword}}} at line ${line}; blocks are #if and #each`);
+			}
+			const node: BlockNode = { type: keyword, path: parsePath(expression, line), body: [], inverse: [] };
+			current.push(node);
+			stack.push({ node, parent: current, line });
+			current = node.body;
+		} else if (tag === 'else') {
+			if (!top || current !== top.node.body) {
+				throw new TemplateError(`Unexpected {{else}} at line ${line}`);
+			}
+			current = top.node.inverse;
+		} else if (tag.startsWith('/')) {
+			const keyword = tag.slice(1).trim();
+			if (!top || top.node.type !== keyword) {
+				throw new TemplateError(`Unexpected {{/${keyword}}} at line ${line}`);
+			}
+			stack.pop();
+			current = top.parent;
+		} else {
+			const [path, ...filters] = splitFilters(tag);
+			current.push({
+				type: 'output',
+				path: parsePath(path, line),
+				filters: filters.map((filter) => parseFilter(filter, line)),
+			});
+		}
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		throw new TemplateError(`Unclosed {{#${unclosed.node.type}}} block at line ${unclosed.line}`);
+	}
+
+	return root;
+}
+
+/**
+ * Parse a template
+ *
+ * @param source - Template text
+ * @returns The compiled template
+ * @throws TemplateError if the template is malformed
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+	return { nodes: parse(tokenize(source)) };
+}
+
+function lookup(path: Path, scope: Scope, root: TemplateVariables): unknown {
+	if (path.scope === 'data') {
+		return scope.data?.[path.segments[0] as keyof LoopData];
+	}
+
+	let value: unknown = path.scope === 'root' ? root : scope.value;
+	for (const segment of path.segments) {
+		if (typeof value !== 'object' || value === null || !Object.prototype.hasOwnProperty.call(value, segment)) {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[segment];
+	}
+	return value;
+}
+
+function isTruthy(value: unknown): boolean {
+	return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], scope: Scope, context: { root: TemplateVariables; html: boolean }): string {
+	let output = '';
+	const append = (text: string) => {
+		output += text;
+		if (output.length > TEMPLATE_CONFIG.MAX_RENDERED_LENGTH) {
+			throw new TemplateError(`Rendered template is too large (maximum ${TEMPLATE_CONFIG.MAX_RENDERED_LENGTH} characters)`);
+		}
+	};
+
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			append(node.value);
+		} else if (node.type === 'output') {
+			const value = node.filters.reduce(
+				(current, filter) => FILTERS.get(filter.name)!.apply(current, filter.args),
+				lookup(node.path, scope, context.root),
+			);
+			append(context.html ? escapeHtml(toText(value)) : toText(value));
+		} else if (node.type === 'if') {
+			append(renderNodes(isTruthy(lookup(node.path, scope, context.root)) ? node.body : node.inverse, scope, context));
+		} else {
+			const items = lookup(node.path, scope, context.root);
+			if (!Array.isArray(items) || items.length === 0) {
+				append(renderNodes(node.inverse, scope, context));
+				continue;
+			}
+			items.forEach((item, index) => {
+				const data = { index, first: index === 0, last: index === items.length - 1 };
+				append(renderNodes(node.body, { value: item, data }, context));
+			});
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Render a compiled template
+ *
+ * @param template - Compiled template
+ * @param variables - Variable values
+ * @param options - Whether the output is HTML, in which case values are escaped
+ * @throws TemplateError if a filter cannot format its value or the output is too large
+ */
+export function renderTemplate(template: CompiledTemplate, variables: TemplateVariables, options: { html: boolean }): string {
+	return renderNodes(template.nodes, { value: variables, data: null }, { root: variables, html: options.html });
+}
+
+function collectVariables(nodes: Node[], inLoop: boolean, names: Set<string>): void {
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			continue;
+		}
+
+		const { scope, segments } = node.path;
+		if ((scope === 'root' || (scope === 'local' && !inLoop)) && segments.length > 0) {
+			names.add(segments[0]);
+		}
+
+		if (node.type !== 'output') {
+			collectVariables(node.body, inLoop || node.type === 'each', names);
+			collectVariables(node.inverse, inLoop, names);
+		}
+	}
+}
+
+/**
+ * List the top-level variables that templates read
+ *
+ * Fields of list items read inside {{#each}} are not included.
+ */
+export function getTemplateVariables(...templates: CompiledTemplate[]): string[] {
+	const names = new Set<string>();
+	for (const template of templates) {
+		collectVariables(template.nodes, false, names);
+	}
+	return [...names];
+}
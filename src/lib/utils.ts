@@ -29,4 +29,22 @@ const getEmail = (email: string) => {
 	return { displayName: getDisplayName(email), emailAddress: getEmailAddress(email) };
 };
 
-export { getDisplayName, getEmail, getEmailAddress };
+// Compare two addresses, ignoring display names and case
+const isSameAddress = (a: string, b: string) => {
+	return getEmailAddress(a).trim().toLowerCase() === getEmailAddress(b).trim().toLowerCase();
+};
+
+// Compare two strings in constant time, for signatures and tokens
+const timingSafeEqual = (a: string, b: string) => {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+};
+
+export { getDisplayName, getEmail, getEmailAddress, isSameAddress, timingSafeEqual };
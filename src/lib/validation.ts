@@ -0,0 +1,81 @@
+/**
+ * Request Body Validation
+ *
+ * Field checks shared by the management API routes. Each returns an error
+ * message for the field, or null when the value is valid.
+ */
+
+import type { HonoRequest } from 'hono';
+
+/**
+ * Read a JSON request body
+ *
+ * @returns The parsed body, or undefined when it is not valid JSON
+ */
+export async function readJsonBody(request: HonoRequest): Promise<unknown> {
+	try {
+		return await request.json();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check that a request body or field is a JSON object, so its fields can be read
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a string field
+ *
+ * @param value - Field value from the request body
+ * @param field - Field name, for the error message
+ * @param options - Whether the field is required, its maximum length and an optional pattern
+ */
+export function checkString(
+	value: unknown,
+	field: string,
+	options: { required?: boolean; maxLength: number; pattern?: RegExp },
+): string | null {
+	if (value === undefined) {
+		return options.required ? `${field} is required` : null;
+	}
+
+	if (typeof value !== 'string' || (options.required && !value.trim())) {
+		return `${field} must be a non-empty string`;
+	}
+
+	if (value.length > options.maxLength) {
+		return `${field} is too long (maximum ${options.maxLength} characters)`;
+	}
+
+	if (options.pattern && !options.pattern.test(value)) {
+		return `Invalid ${field}: ${value}`;
+	}
+
+	return null;
+}
+
+/**
+ * Check an optional boolean field
+ *
+ * @param value - Field value from the request body
+ * @param field - Field name, for the error message
+ */
+export function checkBoolean(value: unknown, field: string): string | null {
+	return value === undefined || typeof value === 'boolean' ? null : `${field} must be a boolean`;
+}
+
+/**
+ * Parse an optional true/false query parameter
+ *
+ * @returns The value, undefined when not given, or null when invalid
+ */
+export function parseBooleanQuery(value: string | undefined): boolean | undefined | null {
+	if (value === undefined) {
+		return undefined;
+	}
+	return value === 'true' ? true : value === 'false' ? false : null;
+}
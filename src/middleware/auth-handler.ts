@@ -1,7 +1,10 @@
 import { Context, Next } from 'hono';
 
+// Request header carrying the caller's API key
+export const API_KEY_HEADER = 'X-API-Key';
+
 export const authHandler = async (c: Context, next: Next) => {
-	const apiKey = c.req.header('X-API-Key');
+	const apiKey = c.req.header(API_KEY_HEADER);
 	if (!apiKey || apiKey !== c.env.API_AUTH_TOKEN) {
 		return c.json(
 			{
@@ -1,6 +1,14 @@
 import { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+import { ApplicationError } from '../errors';
 
 export const errorHandler = async (err: Error, c: Context) => {
+	// Client errors thrown by services keep their status, e.g. 409 for a conflicting change
+	if (err instanceof ApplicationError && err.code >= 400 && err.code < 500) {
+		return c.json({ success: false, code: err.code, message: err.message }, err.code as ContentfulStatusCode);
+	}
+
 	console.error(`Error processing request: ${err.message}`);
 	c.status(500);
 	return c.json({
@@ -0,0 +1,77 @@
+import { Context, Next } from 'hono';
+
+import { IDEMPOTENCY_CONFIG } from '../config';
+import IdempotencyService, { isReplayableStatus } from '../email/idempotency-service';
+import { API_KEY_HEADER } from './auth-handler';
+
+// Idempotency middleware, replays the stored response for a repeated Idempotency-Key
+// from the same caller; runs after authHandler, so the API key has been checked
+export const idempotencyHandler = async (c: Context, next: Next) => {
+	const key = c.req.header(IDEMPOTENCY_CONFIG.HEADER_NAME);
+	if (!key) {
+		await next();
+		return;
+	}
+
+	if (key.length > IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `${IDEMPOTENCY_CONFIG.HEADER_NAME} must be at most ${IDEMPOTENCY_CONFIG.MAX_KEY_LENGTH} characters`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const body = await c.req.text();
+	const requestHash = await IdempotencyService.hashRequest(`${c.req.method} ${c.req.path}\n${body}`);
+	const scope = await IdempotencyService.getScope(c.req.header(API_KEY_HEADER) ?? '');
+	const claim = await IdempotencyService.claim(scope, key, requestHash, c.env);
+
+	if (claim.status === 'replay') {
+		return c.body(claim.response, claim.statusCode, {
+			'Content-Type': 'application/json',
+			'Idempotent-Replayed': 'true',
+		});
+	}
+
+	if (claim.status === 'mismatch') {
+		return c.json(
+			{
+				success: false,
+				code: 422,
+				message: `${IDEMPOTENCY_CONFIG.HEADER_NAME} was already used with a different request`,
+			},
+			{ status: 422 },
+		);
+	}
+
+	if (claim.status === 'in_progress') {
+		return c.json(
+			{
+				success: false,
+				code: 409,
+				message: `A request with this ${IDEMPOTENCY_CONFIG.HEADER_NAME} is still being processed`,
+			},
+			{ status: 409 },
+		);
+	}
+
+	try {
+		await next();
+	} catch (error) {
+		await IdempotencyService.release(scope, key, claim.lease, c.env);
+		throw error;
+	}
+
+	// Server errors are not stored, so the client can retry them with the same key;
+	// neither are responses without a body, which could not be replayed
+	const status = c.res.status;
+	if (status >= 500 || !isReplayableStatus(status)) {
+		await IdempotencyService.release(scope, key, claim.lease, c.env);
+		return;
+	}
+
+	await IdempotencyService.complete(scope, key, claim.lease, status, await c.res.clone().text(), c.env);
+};
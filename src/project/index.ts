@@ -0,0 +1,184 @@
+import { Hono } from 'hono';
+
+import { PAGINATION_CONFIG, TEMPLATE_CONFIG } from '../config';
+import { checkBoolean, checkString, isObject, parseBooleanQuery, readJsonBody } from '../lib/validation';
+import ProjectService, { type ProjectUpdate } from './project-service';
+
+const router = new Hono<{ Bindings: Env }>().basePath('/projects');
+
+/**
+ * Project fields of a request body, once validated
+ */
+interface ProjectBody extends ProjectUpdate {
+	key?: string;
+}
+
+/**
+ * Validate a project body
+ *
+ * @param body - Request body
+ * @param creating - Whether the key and display name are required
+ * @returns The first error found, or the body's project fields
+ */
+function validateProject(body: unknown, creating: boolean): { error: string } | { error: null; project: ProjectBody } {
+	if (!isObject(body)) {
+		return { error: 'Request body must be an object' };
+	}
+
+	const error =
+		(creating ? checkString(body.key, 'key', { required: true, maxLength: 64, pattern: TEMPLATE_CONFIG.KEY_PATTERN }) : null) ??
+		checkString(body.displayName, 'displayName', { required: creating, maxLength: TEMPLATE_CONFIG.MAX_NAME_LENGTH }) ??
+		(body.description === null
+			? null
+			: checkString(body.description, 'description', { maxLength: TEMPLATE_CONFIG.MAX_DESCRIPTION_LENGTH })) ??
+		checkBoolean(body.isActive, 'isActive');
+
+	return error ? { error } : { error: null, project: body as ProjectBody };
+}
+
+// List projects, newest first
+router.get('/', async (c) => {
+	const { active, cursor, limit } = c.req.query();
+
+	const isActive = parseBooleanQuery(active);
+	const parsedCursor = cursor ? Number(cursor) : undefined;
+	const parsedLimit = limit ? Number(limit) : PAGINATION_CONFIG.DEFAULT_LIMIT;
+	if (
+		isActive === null ||
+		(parsedCursor !== undefined && (!Number.isInteger(parsedCursor) || parsedCursor < 1)) ||
+		!Number.isInteger(parsedLimit) ||
+		parsedLimit < 1 ||
+		parsedLimit > PAGINATION_CONFIG.MAX_LIMIT
+	) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `active must be true or false, cursor a project ID and limit an integer between 1 and ${PAGINATION_CONFIG.MAX_LIMIT}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const { projects, nextCursor } = await ProjectService.listProjects({ isActive, cursor: parsedCursor, limit: parsedLimit }, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Found ${projects.length} projects`,
+			data: { projects, nextCursor },
+		},
+		{ status: 200 },
+	);
+});
+
+// Create a project
+router.post('/', async (c) => {
+	const body = await readJsonBody(c.req);
+	if (body === undefined) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const validation = validateProject(body, true);
+	if (validation.error !== null) {
+		return c.json({ success: false, code: 400, message: validation.error }, { status: 400 });
+	}
+
+	const { key, displayName, description } = validation.project;
+	if (await ProjectService.getProject(key!, c.env)) {
+		return c.json({ success: false, code: 409, message: `Project already exists: ${key}` }, { status: 409 });
+	}
+
+	const project = await ProjectService.createProject(
+		{ key: key!, displayName: displayName!, description: description ?? undefined },
+		c.env,
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 201,
+			message: 'Project created',
+			data: project,
+		},
+		{ status: 201 },
+	);
+});
+
+// Get a project
+router.get('/:key', async (c) => {
+	const key = c.req.param('key');
+	const project = await ProjectService.getProject(key, c.env);
+
+	if (!project) {
+		return c.json({ success: false, code: 404, message: `Project not found: ${key}` }, { status: 404 });
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Project found',
+			data: project,
+		},
+		{ status: 200 },
+	);
+});
+
+// Update a project's display name, description or active state
+router.patch('/:key', async (c) => {
+	const key = c.req.param('key');
+	const body = await readJsonBody(c.req);
+	if (body === undefined) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const validation = validateProject(body, false);
+	if (validation.error !== null) {
+		return c.json({ success: false, code: 400, message: validation.error }, { status: 400 });
+	}
+
+	const project = await ProjectService.getProject(key, c.env);
+	if (!project) {
+		return c.json({ success: false, code: 404, message: `Project not found: ${key}` }, { status: 404 });
+	}
+
+	const { displayName, description, isActive } = validation.project;
+	const updated = await ProjectService.updateProject(project.id, { displayName, description, isActive }, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Project updated',
+			data: updated,
+		},
+		{ status: 200 },
+	);
+});
+
+// Delete a project without templates or waitlists
+router.delete('/:key', async (c) => {
+	const key = c.req.param('key');
+
+	const project = await ProjectService.getProject(key, c.env);
+	if (!project) {
+		return c.json({ success: false, code: 404, message: `Project not found: ${key}` }, { status: 404 });
+	}
+
+	if (!(await ProjectService.deleteProject(project.id, c.env))) {
+		return c.json(
+			{
+				success: false,
+				code: 409,
+				message: `Project ${key} still has templates or waitlists`,
+			},
+			{ status: 409 },
+		);
+	}
+
+	return c.json({ success: true, code: 200, message: 'Project deleted' }, { status: 200 });
+});
+
+export { router };
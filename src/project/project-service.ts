@@ -0,0 +1,108 @@
+/**
+ * Project Service
+ *
+ * Manages projects, which group templates (and waitlists) by product.
+ */
+
+import { type Project } from '@prisma/client';
+
+import { getPrismaClient } from '../lib/prisma-client';
+
+/**
+ * Fields of a project that can be changed after it is created
+ */
+export interface ProjectUpdate {
+	displayName?: string;
+	description?: string | null;
+	isActive?: boolean;
+}
+
+class ProjectService {
+	/**
+	 * Get a project by key
+	 *
+	 * @param key - Project key
+	 * @param env - Environment with DB binding
+	 */
+	static async getProject(key: string, env: Env): Promise<Project | null> {
+		const prisma = getPrismaClient(env);
+		return prisma.project.findUnique({ where: { key } });
+	}
+
+	/**
+	 * List projects, newest first, with cursor pagination
+	 *
+	 * @param filters - Optional active filter and pagination options
+	 * @param env - Environment with DB binding
+	 * @returns A page of projects and the cursor for the next page, if any
+	 */
+	static async listProjects(
+		filters: { isActive?: boolean; cursor?: number; limit: number },
+		env: Env,
+	): Promise<{ projects: Project[]; nextCursor: number | null }> {
+		const prisma = getPrismaClient(env);
+		const { isActive, cursor, limit } = filters;
+
+		// Fetch one extra row to know whether another page exists
+		const projects = await prisma.project.findMany({
+			where: {
+				...(isActive !== undefined && { isActive }),
+				...(cursor !== undefined && { id: { lt: cursor } }),
+			},
+			take: limit + 1,
+			orderBy: { id: 'desc' },
+		});
+
+		const hasMore = projects.length > limit;
+		const page = hasMore ? projects.slice(0, limit) : projects;
+
+		return { projects: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+	}
+
+	/**
+	 * Create a project
+	 *
+	 * @param data - Key, display name and optional description
+	 * @param env - Environment with DB binding
+	 */
+	static async createProject(data: { key: string; displayName: string; description?: string }, env: Env): Promise<Project> {
+		const prisma = getPrismaClient(env);
+		return prisma.project.create({ data });
+	}
+
+	/**
+	 * Update a project
+	 *
+	 * @param id - Project ID
+	 * @param data - Fields to change
+	 * @param env - Environment with DB binding
+	 */
+	static async updateProject(id: number, data: ProjectUpdate, env: Env): Promise<Project> {
+		const prisma = getPrismaClient(env);
+		return prisma.project.update({ where: { id }, data });
+	}
+
+	/**
+	 * Delete a project that has no templates or waitlists
+	 *
+	 * @param id - Project ID
+	 * @param env - Environment with DB binding
+	 * @returns false if the project still has templates or waitlists
+	 */
+	static async deleteProject(id: number, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+
+		const [templates, waitlists] = await Promise.all([
+			prisma.template.count({ where: { projectId: id } }),
+			prisma.waitlist.count({ where: { projectId: id } }),
+		]);
+		if (templates > 0 || waitlists > 0) {
+			return false;
+		}
+
+		await prisma.project.delete({ where: { id } });
+		return true;
+	}
+}
+
+export default ProjectService;
@@ -0,0 +1,22 @@
+import { Hono } from 'hono';
+
+import CircuitBreakerService from '../email/circuit-breaker-service';
+
+const router = new Hono<{ Bindings: Env }>().basePath('/providers');
+
+// Circuit breaker state and recent health of every provider
+router.get('/health', async (c) => {
+	const providers = await CircuitBreakerService.getHealth(c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Provider health retrieved',
+			data: providers,
+		},
+		{ status: 200 },
+	);
+});
+
+export { router };
@@ -0,0 +1,133 @@
+import { SuppressionReason } from '@prisma/client';
+import { Hono } from 'hono';
+
+import { PAGINATION_CONFIG } from '../config';
+import { isValidEmail } from '../email/email-utils';
+import { ValidationError } from '../errors';
+import { isObject, readJsonBody } from '../lib/validation';
+import SuppressionService from './suppression-service';
+
+const router = new Hono<{ Bindings: Env }>().basePath('/suppressions');
+
+const REASONS = Object.values(SuppressionReason) as string[];
+
+/**
+ * Parse a suppression reason, accepted in any case (e.g. hard_bounce)
+ */
+function parseReason(reason: unknown): SuppressionReason | null {
+	const value = typeof reason === 'string' ? reason.toUpperCase() : '';
+	return REASONS.includes(value) ? (value as SuppressionReason) : null;
+}
+
+// List suppressed addresses, newest first
+router.get('/', async (c) => {
+	const { reason, cursor, limit } = c.req.query();
+
+	const parsedReason = reason ? parseReason(reason) : undefined;
+	if (parsedReason === null) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `Invalid reason: ${reason}. Use one of ${REASONS.join(', ')}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const parsedCursor = cursor ? Number(cursor) : undefined;
+	const parsedLimit = limit ? Number(limit) : PAGINATION_CONFIG.DEFAULT_LIMIT;
+	if (
+		(parsedCursor !== undefined && (!Number.isInteger(parsedCursor) || parsedCursor < 1)) ||
+		!Number.isInteger(parsedLimit) ||
+		parsedLimit < 1 ||
+		parsedLimit > PAGINATION_CONFIG.MAX_LIMIT
+	) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `cursor must be a suppression ID and limit an integer between 1 and ${PAGINATION_CONFIG.MAX_LIMIT}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const { suppressions, nextCursor } = await SuppressionService.listSuppressions(
+		{ reason: parsedReason, cursor: parsedCursor, limit: parsedLimit },
+		c.env,
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Found ${suppressions.length} suppressions`,
+			data: { suppressions, nextCursor },
+		},
+		{ status: 200 },
+	);
+});
+
+// Suppress an address
+router.post('/', async (c) => {
+	const body = await readJsonBody(c.req);
+	if (!isObject(body)) {
+		throw new ValidationError(body === undefined ? 'Invalid JSON body' : 'Request body must be an object');
+	}
+
+	const { email, reason = 'manual', detail } = body;
+
+	if (typeof email !== 'string' || !isValidEmail(email)) {
+		throw new ValidationError(`Invalid email address: ${email}`);
+	}
+
+	const parsedReason = parseReason(reason);
+	if (!parsedReason) {
+		throw new ValidationError(`Invalid reason: ${reason}. Use one of ${REASONS.join(', ')}`);
+	}
+
+	if (detail !== undefined && typeof detail !== 'string') {
+		throw new ValidationError('detail must be a string');
+	}
+
+	const suppression = await SuppressionService.addSuppression(email, parsedReason, { detail, source: 'api' }, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 201,
+			message: 'Address suppressed',
+			data: suppression,
+		},
+		{ status: 201 },
+	);
+});
+
+// Remove an address from the suppression list
+router.delete('/:email', async (c) => {
+	const email = c.req.param('email');
+	const removed = await SuppressionService.removeSuppression(email, c.env);
+
+	if (!removed) {
+		return c.json(
+			{
+				success: false,
+				code: 404,
+				message: `Address is not suppressed: ${email}`,
+			},
+			{ status: 404 },
+		);
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Suppression removed',
+		},
+		{ status: 200 },
+	);
+});
+
+export { router };
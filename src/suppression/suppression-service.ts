@@ -0,0 +1,128 @@
+/**
+ * Suppression Service
+ *
+ * Global suppression list: addresses that hard-bounced, complained or were
+ * suppressed by hand get no email at all, whatever the template.
+ */
+
+import { type Suppression, type SuppressionReason } from '@prisma/client';
+
+import { getPrismaClient } from '../lib/prisma-client';
+import { getEmailAddress } from '../lib/utils';
+
+/**
+ * Normalize an address ("Name <a@b.com>" or "a@b.com") for suppression lookups
+ */
+function toKey(email: string): string {
+	return getEmailAddress(email).trim().toLowerCase();
+}
+
+class SuppressionService {
+	/**
+	 * Find which of the given addresses are suppressed
+	 *
+	 * Fails open: if the list cannot be read, nothing is reported as suppressed.
+	 *
+	 * @param emails - Addresses to check, with or without display names
+	 * @param env - Environment with DB binding
+	 * @returns Suppression reason by address, for suppressed addresses only (keyed as given)
+	 */
+	static async getSuppressed(emails: string[], env: Env): Promise<Map<string, SuppressionReason>> {
+		const prisma = getPrismaClient(env);
+		const suppressed = new Map<string, SuppressionReason>();
+
+		if (emails.length === 0) {
+			return suppressed;
+		}
+
+		try {
+			const rows = await prisma.suppression.findMany({
+				where: { emailAddress: { in: [...new Set(emails.map(toKey))] } },
+				select: { emailAddress: true, reason: true },
+			});
+			const reasons = new Map(rows.map((row) => [row.emailAddress, row.reason]));
+
+			for (const email of emails) {
+				const reason = reasons.get(toKey(email));
+				if (reason) {
+					suppressed.set(email, reason);
+				}
+			}
+		} catch (error) {
+			console.error(`Failed to check suppression list: ${error}`);
+		}
+
+		return suppressed;
+	}
+
+	/**
+	 * Add an address to the suppression list, or update its reason if already there
+	 *
+	 * @param email - Address to suppress
+	 * @param reason - Why the address is suppressed
+	 * @param options - Optional details and where the suppression came from
+	 * @param env - Environment with DB binding
+	 * @returns The suppression
+	 */
+	static async addSuppression(
+		email: string,
+		reason: SuppressionReason,
+		options: { detail?: string; source?: string },
+		env: Env,
+	): Promise<Suppression> {
+		const prisma = getPrismaClient(env);
+		const emailAddress = toKey(email);
+		const data = { reason, detail: options.detail ?? null, source: options.source ?? null };
+
+		return prisma.suppression.upsert({
+			where: { emailAddress },
+			create: { emailAddress, ...data },
+			update: data,
+		});
+	}
+
+	/**
+	 * Remove an address from the suppression list
+	 *
+	 * @param email - Address to remove
+	 * @param env - Environment with DB binding
+	 * @returns true if the address was suppressed
+	 */
+	static async removeSuppression(email: string, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+		const { count } = await prisma.suppression.deleteMany({ where: { emailAddress: toKey(email) } });
+		return count > 0;
+	}
+
+	/**
+	 * List suppressions, newest first, with cursor pagination
+	 *
+	 * @param filters - Optional reason filter and pagination options
+	 * @param env - Environment with DB binding
+	 * @returns A page of suppressions and the cursor for the next page, if any
+	 */
+	static async listSuppressions(
+		filters: { reason?: SuppressionReason; cursor?: number; limit: number },
+		env: Env,
+	): Promise<{ suppressions: Suppression[]; nextCursor: number | null }> {
+		const prisma = getPrismaClient(env);
+		const { reason, cursor, limit } = filters;
+
+		// Fetch one extra row to know whether another page exists
+		const suppressions = await prisma.suppression.findMany({
+			where: {
+				...(reason && { reason }),
+				...(cursor !== undefined && { id: { lt: cursor } }),
+			},
+			take: limit + 1,
+			orderBy: { id: 'desc' },
+		});
+
+		const hasMore = suppressions.length > limit;
+		const page = hasMore ? suppressions.slice(0, limit) : suppressions;
+
+		return { suppressions: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+	}
+}
+
+export default SuppressionService;
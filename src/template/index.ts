@@ -0,0 +1,692 @@
+import { Hono } from 'hono';
+
+import { PAGINATION_CONFIG, TEMPLATE_CONFIG } from '../config';
+import TemplateService from '../email/templates';
+import { TemplateError } from '../errors';
+import { unifiedDiff } from '../lib/diff';
+import { getAvailableProviders } from '../lib/email-provider';
+import { compileTemplate, getTemplateVariables } from '../lib/template-engine';
+import { checkBoolean, checkString, isObject, parseBooleanQuery, readJsonBody } from '../lib/validation';
+import ProjectService from '../project/project-service';
+import TrackingService from '../tracking/tracking-service';
+import type { TemplateVariableDeclaration, TemplateVariables } from '../types';
+import TemplateAdminService, { type TemplateUpdate } from './template-admin-service';
+
+const router = new Hono<{ Bindings: Env }>().basePath('/templates');
+
+// Content security policy of previews served as HTML: no scripts, frames or requests
+// other than images, which emails commonly load from their own hosts
+const PREVIEW_HTML_POLICY = "sandbox; default-src 'none'; img-src * data:; style-src 'unsafe-inline'";
+
+/**
+ * Check a template's provider failover order: null, or distinct registered providers
+ */
+function checkProviderOrder(value: unknown): string | null {
+	if (value === undefined || value === null) {
+		return null;
+	}
+
+	const available = getAvailableProviders();
+	if (
+		!Array.isArray(value) ||
+		value.length === 0 ||
+		value.some((provider) => !available.includes(provider)) ||
+		new Set(value).size !== value.length
+	) {
+		return `providerOrder must be null or a list of distinct providers from ${available.join(', ')}`;
+	}
+
+	return null;
+}
+
+/**
+ * Check that a subject or body parses in the template language
+ */
+function checkTemplateSyntax(value: unknown, field: string): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	try {
+		compileTemplate(value);
+		return null;
+	} catch (error) {
+		return `${field}: ${error instanceof TemplateError ? error.message : String(error)}`;
+	}
+}
+
+/**
+ * Check a template's variable declarations: distinct names, known types and defaults of the declared type
+ */
+function checkVariableDeclarations(value: unknown): string | null {
+	if (value === undefined) {
+		return null;
+	}
+
+	if (!Array.isArray(value) || value.length > TEMPLATE_CONFIG.MAX_VARIABLES) {
+		return `variables must be a list of at most ${TEMPLATE_CONFIG.MAX_VARIABLES} declarations`;
+	}
+
+	const names = new Set<string>();
+	for (const [index, declaration] of value.entries()) {
+		const field = `variables[${index}]`;
+		if (typeof declaration !== 'object' || declaration === null || Array.isArray(declaration)) {
+			return `${field} must be an object`;
+		}
+
+		const error =
+			checkString(declaration.name, `${field}.name`, { required: true, maxLength: 64, pattern: /^(?!__proto__$)[\w-]+$/ }) ??
+			(TEMPLATE_CONFIG.VARIABLE_TYPES.includes(declaration.type)
+				? null
+				: `${field}.type must be one of ${TEMPLATE_CONFIG.VARIABLE_TYPES.join(', ')}`) ??
+			checkBoolean(declaration.required, `${field}.required`) ??
+			checkString(declaration.description, `${field}.description`, { maxLength: TEMPLATE_CONFIG.MAX_DESCRIPTION_LENGTH }) ??
+			(declaration.default === undefined || TemplateService.matchesType(declaration.default, declaration.type)
+				? null
+				: `${field}.default must be of type ${declaration.type}`);
+		if (error) {
+			return error;
+		}
+
+		if (names.has(declaration.name)) {
+			return `Duplicate variable: ${declaration.name}`;
+		}
+		names.add(declaration.name);
+	}
+
+	return null;
+}
+
+/**
+ * Keep only the known fields of variable declarations from a request body
+ */
+function toDeclarations(value: TemplateVariableDeclaration[] | undefined): TemplateVariableDeclaration[] | undefined {
+	return value?.map(({ name, type, required, default: defaultValue, description }) => ({
+		name,
+		type,
+		...(required !== undefined && { required }),
+		...(defaultValue !== undefined && { default: defaultValue }),
+		...(description !== undefined && { description }),
+	}));
+}
+
+/**
+ * Check that a template's subject and bodies only read declared variables
+ */
+function checkUndeclaredVariables(
+	content: { subject: string; bodyHtml: string; bodyText: string },
+	declarations: TemplateVariableDeclaration[],
+): string | null {
+	try {
+		const used = getTemplateVariables(...[content.subject, content.bodyHtml, content.bodyText].map(compileTemplate));
+		const undeclared = used.filter((name) => !declarations.some((declaration) => declaration.name === name));
+		return undeclared.length > 0 ? `Template uses undeclared variables: ${undeclared.join(', ')}` : null;
+	} catch (error) {
+		return error instanceof TemplateError ? error.message : String(error);
+	}
+}
+
+/**
+ * Template fields of a request body, once validated
+ */
+interface TemplateBody extends TemplateUpdate {
+	project?: string;
+	key?: string;
+}
+
+/**
+ * Validate a template body
+ *
+ * @param body - Request body
+ * @param creating - Whether the project, key, display name, subject and bodies are required
+ * @returns The first error found, or the body's template fields
+ */
+function validateTemplate(body: unknown, creating: boolean): { error: string } | { error: null; template: TemplateBody } {
+	if (!isObject(body)) {
+		return { error: 'Request body must be an object' };
+	}
+
+	const required = creating;
+	const error =
+		(creating ? checkString(body.project, 'project', { required, maxLength: 64 }) : null) ??
+		(creating ? checkString(body.key, 'key', { required, maxLength: 64, pattern: TEMPLATE_CONFIG.KEY_PATTERN }) : null) ??
+		checkString(body.displayName, 'displayName', { required, maxLength: TEMPLATE_CONFIG.MAX_NAME_LENGTH }) ??
+		(body.description === null
+			? null
+			: checkString(body.description, 'description', { maxLength: TEMPLATE_CONFIG.MAX_DESCRIPTION_LENGTH })) ??
+		checkString(body.subject, 'subject', { required, maxLength: TEMPLATE_CONFIG.MAX_SUBJECT_LENGTH, pattern: /^[^\r\n]*$/ }) ??
+		checkString(body.bodyHtml, 'bodyHtml', { required, maxLength: TEMPLATE_CONFIG.MAX_BODY_LENGTH }) ??
+		checkString(body.bodyText, 'bodyText', { required, maxLength: TEMPLATE_CONFIG.MAX_BODY_LENGTH }) ??
+		checkTemplateSyntax(body.subject, 'subject') ??
+		checkTemplateSyntax(body.bodyHtml, 'bodyHtml') ??
+		checkTemplateSyntax(body.bodyText, 'bodyText') ??
+		checkProviderOrder(body.providerOrder) ??
+		checkVariableDeclarations(body.variables) ??
+		checkBoolean(body.isActive, 'isActive');
+
+	return error ? { error } : { error: null, template: body as TemplateBody };
+}
+
+/**
+ * Parse a version number from a path or query parameter
+ *
+ * @returns The version, or null when not a positive integer
+ */
+function parseVersion(value: string | undefined): number | null {
+	const version = Number(value);
+	return value && Number.isInteger(version) && version > 0 ? version : null;
+}
+
+// List templates, newest first
+router.get('/', async (c) => {
+	const { project, active, cursor, limit } = c.req.query();
+
+	const isActive = parseBooleanQuery(active);
+	const parsedCursor = cursor ? Number(cursor) : undefined;
+	const parsedLimit = limit ? Number(limit) : PAGINATION_CONFIG.DEFAULT_LIMIT;
+	if (
+		isActive === null ||
+		(parsedCursor !== undefined && (!Number.isInteger(parsedCursor) || parsedCursor < 1)) ||
+		!Number.isInteger(parsedLimit) ||
+		parsedLimit < 1 ||
+		parsedLimit > PAGINATION_CONFIG.MAX_LIMIT
+	) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `active must be true or false, cursor a template ID and limit an integer between 1 and ${PAGINATION_CONFIG.MAX_LIMIT}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	const { templates, nextCursor } = await TemplateAdminService.listTemplates(
+		{ projectKey: project, isActive, cursor: parsedCursor, limit: parsedLimit },
+		c.env,
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Found ${templates.length} templates`,
+			data: { templates: templates.map(TemplateAdminService.formatTemplate), nextCursor },
+		},
+		{ status: 200 },
+	);
+});
+
+// Create a template in a project
+router.post('/', async (c) => {
+	const body = await readJsonBody(c.req);
+	if (body === undefined) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const validation = validateTemplate(body, true);
+	if (validation.error !== null) {
+		return c.json({ success: false, code: 400, message: validation.error }, { status: 400 });
+	}
+
+	// Required fields are present once a new template's body is valid
+	const {
+		project: projectKey,
+		key,
+		displayName,
+		description,
+		subject,
+		bodyHtml,
+		bodyText,
+		providerOrder,
+		isActive,
+	} = validation.template as Required<TemplateBody>;
+	const variables = toDeclarations(validation.template.variables) ?? [];
+
+	const project = await ProjectService.getProject(projectKey, c.env);
+	if (!project) {
+		return c.json({ success: false, code: 404, message: `Project not found: ${projectKey}` }, { status: 404 });
+	}
+
+	if (await TemplateAdminService.getTemplate(key, c.env)) {
+		return c.json({ success: false, code: 409, message: `Template already exists: ${key}` }, { status: 409 });
+	}
+
+	const undeclared = checkUndeclaredVariables({ subject, bodyHtml, bodyText }, variables);
+	if (undeclared) {
+		return c.json({ success: false, code: 400, message: undeclared }, { status: 400 });
+	}
+
+	const template = await TemplateAdminService.createTemplate(
+		{ projectId: project.id, key, displayName, description, subject, bodyHtml, bodyText, providerOrder, isActive, variables },
+		c.env,
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 201,
+			message: 'Template created',
+			data: TemplateAdminService.formatTemplate(template),
+		},
+		{ status: 201 },
+	);
+});
+
+// Get a template
+router.get('/:key', async (c) => {
+	const key = c.req.param('key');
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template found',
+			data: TemplateAdminService.formatTemplate(template),
+		},
+		{ status: 200 },
+	);
+});
+
+// Update a template's content, variables, display name, description, provider order or active state
+router.patch('/:key', async (c) => {
+	const key = c.req.param('key');
+	const body = await readJsonBody(c.req);
+	if (body === undefined) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const validation = validateTemplate(body, false);
+	if (validation.error !== null) {
+		return c.json({ success: false, code: 400, message: validation.error }, { status: 400 });
+	}
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const { displayName, description, subject, bodyHtml, bodyText, providerOrder, isActive } = validation.template;
+	const variables = toDeclarations(validation.template.variables);
+
+	// Changed content must only use declared variables; templates that have never
+	// declared any keep sending as they are until their content is edited
+	if (subject !== undefined || bodyHtml !== undefined || bodyText !== undefined || variables !== undefined) {
+		const undeclared = checkUndeclaredVariables(
+			{ subject: subject ?? template.subject, bodyHtml: bodyHtml ?? template.bodyHtml, bodyText: bodyText ?? template.bodyText },
+			variables ?? TemplateService.parseVariables(template.variables) ?? [],
+		);
+		if (undeclared) {
+			return c.json({ success: false, code: 400, message: undeclared }, { status: 400 });
+		}
+	}
+
+	const updated = await TemplateAdminService.updateTemplate(
+		template.id,
+		{ displayName, description, subject, bodyHtml, bodyText, providerOrder, isActive, variables },
+		c.env,
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template updated',
+			data: TemplateAdminService.formatTemplate(updated),
+		},
+		{ status: 200 },
+	);
+});
+
+// Activate a template
+router.post('/:key/activate', async (c) => {
+	const key = c.req.param('key');
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const updated = await TemplateAdminService.updateTemplate(template.id, { isActive: true }, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template activated',
+			data: TemplateAdminService.formatTemplate(updated),
+		},
+		{ status: 200 },
+	);
+});
+
+// Deactivate a template, so it can no longer be sent
+router.post('/:key/deactivate', async (c) => {
+	const key = c.req.param('key');
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const updated = await TemplateAdminService.updateTemplate(template.id, { isActive: false }, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template deactivated',
+			data: TemplateAdminService.formatTemplate(updated),
+		},
+		{ status: 200 },
+	);
+});
+
+// Delete a template that no message references
+router.delete('/:key', async (c) => {
+	const key = c.req.param('key');
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	if (!(await TemplateAdminService.deleteTemplate(template.id, c.env))) {
+		return c.json(
+			{
+				success: false,
+				code: 409,
+				message: `Template ${key} is referenced by messages; deactivate it instead`,
+			},
+			{ status: 409 },
+		);
+	}
+
+	return c.json({ success: true, code: 200, message: 'Template deleted' }, { status: 200 });
+});
+
+// Render a template with the given variables without sending it
+router.post('/:key/preview', async (c) => {
+	const key = c.req.param('key');
+	const body = await readJsonBody(c.req);
+	if (!isObject(body)) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: body === undefined ? 'Invalid JSON body' : 'Request body must be an object',
+			},
+			{ status: 400 },
+		);
+	}
+
+	const { templateVariables = {} } = body;
+	if (!isObject(templateVariables)) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: 'templateVariables must be an object',
+			},
+			{ status: 400 },
+		);
+	}
+
+	let preview: Awaited<ReturnType<typeof TemplateService.previewTemplate>>;
+	try {
+		// Parsed from JSON, so every value is a JSON value
+		preview = await TemplateService.previewTemplate(key, templateVariables as TemplateVariables, c.env);
+	} catch (error) {
+		if (!(error instanceof TemplateError)) {
+			throw error;
+		}
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: `Failed to render template ${key}: ${error.message}`,
+			},
+			{ status: 400 },
+		);
+	}
+
+	if (!preview) {
+		return c.json(
+			{
+				success: false,
+				code: 404,
+				message: `Template not found: ${key}`,
+			},
+			{ status: 404 },
+		);
+	}
+
+	// Raw HTML, to open the rendered email in a browser; it holds caller-supplied values,
+	// so it is sandboxed and cannot run scripts on the API origin
+	if (c.req.query('format') === 'html') {
+		return c.html(preview.html, 200, { 'Content-Security-Policy': PREVIEW_HTML_POLICY, 'X-Content-Type-Options': 'nosniff' });
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template rendered',
+			data: preview,
+		},
+		{ status: 200 },
+	);
+});
+
+// Open and click rates of the template's tracked messages
+router.get('/:key/stats', async (c) => {
+	const key = c.req.param('key');
+	const { createdAfter, createdBefore } = c.req.query();
+
+	const range: Record<string, Date | undefined> = {};
+	for (const [name, value] of Object.entries({ createdAfter, createdBefore })) {
+		if (!value) {
+			continue;
+		}
+		const date = new Date(value);
+		if (isNaN(date.getTime())) {
+			return c.json(
+				{
+					success: false,
+					code: 400,
+					message: `Invalid ${name} date format. Use ISO 8601 format.`,
+				},
+				{ status: 400 },
+			);
+		}
+		range[name] = date;
+	}
+
+	const stats = await TrackingService.getTemplateStats(key, range, c.env);
+
+	if (!stats) {
+		return c.json(
+			{
+				success: false,
+				code: 404,
+				message: `Template not found: ${key}`,
+			},
+			{ status: 404 },
+		);
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template stats retrieved',
+			data: stats,
+		},
+		{ status: 200 },
+	);
+});
+
+// List a template's versions, newest first
+router.get('/:key/versions', async (c) => {
+	const key = c.req.param('key');
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const versions = await TemplateAdminService.listVersions(template, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Found ${versions.length} versions`,
+			data: { versions },
+		},
+		{ status: 200 },
+	);
+});
+
+// Get the content of a template version
+router.get('/:key/versions/:version', async (c) => {
+	const key = c.req.param('key');
+
+	const version = parseVersion(c.req.param('version'));
+	if (!version) {
+		return c.json({ success: false, code: 400, message: 'version must be a positive integer' }, { status: 400 });
+	}
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const found = await TemplateAdminService.getVersion(template.id, version, c.env);
+	if (!found) {
+		return c.json({ success: false, code: 404, message: `Template version not found: ${key} v${version}` }, { status: 404 });
+	}
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: 'Template version found',
+			data: {
+				...found,
+				variables: TemplateService.parseVariables(found.variables),
+				published: found.id === template.publishedVersionId,
+			},
+		},
+		{ status: 200 },
+	);
+});
+
+// Compare two versions of a template as unified diffs of the subject and bodies
+router.get('/:key/diff', async (c) => {
+	const key = c.req.param('key');
+
+	const from = parseVersion(c.req.query('from'));
+	const to = parseVersion(c.req.query('to'));
+	if (!from || !to) {
+		return c.json({ success: false, code: 400, message: 'from and to must be version numbers' }, { status: 400 });
+	}
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	const [before, after] = await Promise.all([
+		TemplateAdminService.getVersion(template.id, from, c.env),
+		TemplateAdminService.getVersion(template.id, to, c.env),
+	]);
+	if (!before || !after) {
+		return c.json({ success: false, code: 404, message: `Template version not found: ${key} v${before ? to : from}` }, { status: 404 });
+	}
+
+	// Each field's diff is null when it is unchanged; declarations are compared as indented JSON
+	const formatVariables = (json: string | null) => JSON.stringify(TemplateService.parseVariables(json), null, 2);
+	const diff = Object.fromEntries(
+		(['subject', 'bodyHtml', 'bodyText', 'variables'] as const).map((field) => [
+			field,
+			field === 'variables'
+				? unifiedDiff(formatVariables(before.variables), formatVariables(after.variables), {
+						from: `v${from}/variables`,
+						to: `v${to}/variables`,
+					})
+				: unifiedDiff(before[field], after[field], { from: `v${from}/${field}`, to: `v${to}/${field}` }),
+		]),
+	);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Compared ${key} v${from} with v${to}`,
+			data: { from, to, diff },
+		},
+		{ status: 200 },
+	);
+});
+
+// Roll back to an earlier version by publishing it again
+router.post('/:key/rollback', async (c) => {
+	const key = c.req.param('key');
+	// Only a request without a body rolls back to the previous version
+	const body = (await c.req.text()).trim() ? await readJsonBody(c.req) : {};
+	if (!isObject(body)) {
+		return c.json(
+			{
+				success: false,
+				code: 400,
+				message: body === undefined ? 'Invalid JSON body' : 'Request body must be an object',
+			},
+			{ status: 400 },
+		);
+	}
+
+	if (body.version !== undefined && (typeof body.version !== 'number' || !Number.isInteger(body.version) || body.version < 1)) {
+		return c.json({ success: false, code: 400, message: 'version must be a positive integer' }, { status: 400 });
+	}
+
+	const template = await TemplateAdminService.getTemplate(key, c.env);
+	if (!template) {
+		return c.json({ success: false, code: 404, message: `Template not found: ${key}` }, { status: 404 });
+	}
+
+	// Without a version, roll back to the one before the published version
+	let version = body.version as number | undefined;
+	if (version === undefined) {
+		const versions = await TemplateAdminService.listVersions(template, c.env);
+		const published = versions.find((v) => v.published);
+		version = versions.find((v) => published && v.version < published.version)?.version;
+		if (version === undefined) {
+			return c.json({ success: false, code: 409, message: `Template ${key} has no earlier version` }, { status: 409 });
+		}
+	}
+
+	const found = await TemplateAdminService.getVersion(template.id, version, c.env);
+	if (!found) {
+		return c.json({ success: false, code: 404, message: `Template version not found: ${key} v${version}` }, { status: 404 });
+	}
+
+	const updated = await TemplateAdminService.publishVersion(found, c.env);
+
+	return c.json(
+		{
+			success: true,
+			code: 200,
+			message: `Template rolled back to v${version}`,
+			data: TemplateAdminService.formatTemplate(updated),
+		},
+		{ status: 200 },
+	);
+});
+
+export { router };
@@ -0,0 +1,341 @@
+/**
+ * Template Admin Service
+ *
+ * Creates, updates, lists and deletes templates for the management API.
+ * Rendering and sending use TemplateService.
+ *
+ * Every change to a template's subject, bodies or declared variables is saved
+ * as a new, immutable version and published; rolling back publishes an earlier
+ * version again.
+ */
+
+import { Prisma, type Template, type TemplateVersion } from '@prisma/client';
+
+import { TEMPLATE_CONFIG } from '../config';
+import TemplateService from '../email/templates';
+import { ConflictError } from '../errors';
+import { getPrismaClient } from '../lib/prisma-client';
+import type { EmailProvider, TemplateVariableDeclaration } from '../types';
+
+/**
+ * Template with the key of its project
+ */
+export type TemplateWithProject = Template & { project: { key: string } };
+
+/**
+ * Fields of a template that can be changed after it is created
+ */
+export interface TemplateUpdate {
+	displayName?: string;
+	description?: string | null;
+	subject?: string;
+	bodyHtml?: string;
+	bodyText?: string;
+	providerOrder?: EmailProvider[] | null;
+	isActive?: boolean;
+	variables?: TemplateVariableDeclaration[];
+}
+
+/**
+ * Fields of a new template
+ */
+export interface TemplateCreate extends TemplateUpdate {
+	projectId: number;
+	key: string;
+	displayName: string;
+	subject: string;
+	bodyHtml: string;
+	bodyText: string;
+}
+
+/**
+ * Version metadata, without its content
+ */
+export type TemplateVersionSummary = Pick<TemplateVersion, 'id' | 'version' | 'createdAt'> & { published: boolean };
+
+/**
+ * Convert the provider order and variable declarations to their stored JSON form
+ */
+function toData<T extends TemplateUpdate>(data: T) {
+	const { providerOrder, variables, ...rest } = data;
+	return {
+		...rest,
+		...(providerOrder !== undefined && { providerOrder: providerOrder && JSON.stringify(providerOrder) }),
+		...(variables !== undefined && { variables: JSON.stringify(variables) }),
+	};
+}
+
+/**
+ * Check for a unique constraint violation, e.g. two changes taking the same version number
+ */
+function isUniqueConstraintError(error: unknown): boolean {
+	return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+class TemplateAdminService {
+	/**
+	 * Get a template by key, whatever its project
+	 *
+	 * Keys are kept unique across projects, since sends name templates by key alone.
+	 *
+	 * @param key - Template key
+	 * @param env - Environment with DB binding
+	 */
+	static async getTemplate(key: string, env: Env): Promise<TemplateWithProject | null> {
+		const prisma = getPrismaClient(env);
+		return prisma.template.findFirst({
+			where: { key },
+			include: { project: { select: { key: true } } },
+		});
+	}
+
+	/**
+	 * List templates, newest first, with cursor pagination
+	 *
+	 * @param filters - Optional project and active filters and pagination options
+	 * @param env - Environment with DB binding
+	 * @returns A page of templates and the cursor for the next page, if any
+	 */
+	static async listTemplates(
+		filters: { projectKey?: string; isActive?: boolean; cursor?: number; limit: number },
+		env: Env,
+	): Promise<{ templates: TemplateWithProject[]; nextCursor: number | null }> {
+		const prisma = getPrismaClient(env);
+		const { projectKey, isActive, cursor, limit } = filters;
+
+		const where: Prisma.TemplateWhereInput = {
+			...(projectKey && { project: { key: projectKey } }),
+			...(isActive !== undefined && { isActive }),
+			...(cursor !== undefined && { id: { lt: cursor } }),
+		};
+
+		// Fetch one extra row to know whether another page exists
+		const templates = await prisma.template.findMany({
+			where,
+			include: { project: { select: { key: true } } },
+			take: limit + 1,
+			orderBy: { id: 'desc' },
+		});
+
+		const hasMore = templates.length > limit;
+		const page = hasMore ? templates.slice(0, limit) : templates;
+
+		return { templates: page, nextCursor: hasMore ? page[page.length - 1].id : null };
+	}
+
+	/**
+	 * Create a template, with its content published as version 1
+	 *
+	 * D1 runs each statement on its own, so the template is inserted inactive and only
+	 * activated once its first version is published; if the version cannot be saved,
+	 * the template is removed again.
+	 *
+	 * @param data - Template fields, with the ID of its project
+	 * @param env - Environment with DB binding
+	 * @throws ConflictError if the project already has a template with the key
+	 */
+	static async createTemplate(data: TemplateCreate, env: Env): Promise<TemplateWithProject> {
+		const prisma = getPrismaClient(env);
+
+		let template: Template;
+		try {
+			template = await prisma.template.create({ data: { ...toData(data), isActive: false } });
+		} catch (error) {
+			if (isUniqueConstraintError(error)) {
+				throw new ConflictError(`Template already exists: ${data.key}`);
+			}
+			throw error;
+		}
+
+		let version: TemplateVersion;
+		try {
+			version = await prisma.templateVersion.create({
+				data: {
+					templateId: template.id,
+					version: 1,
+					subject: template.subject,
+					bodyHtml: template.bodyHtml,
+					bodyText: template.bodyText,
+					variables: template.variables,
+				},
+			});
+		} catch (error) {
+			await prisma.template.delete({ where: { id: template.id } }).catch((cleanupError) => {
+				console.error(`Error removing template ${template.id} without a version: ${cleanupError}`);
+			});
+			throw error;
+		}
+
+		return prisma.template.update({
+			where: { id: template.id },
+			data: { publishedVersionId: version.id, isActive: data.isActive ?? true },
+			include: { project: { select: { key: true } } },
+		});
+	}
+
+	/**
+	 * Update a template
+	 *
+	 * A change to the subject, bodies or declared variables is saved as a new version and published.
+	 * D1 runs each statement on its own, so concurrent changes can read the same latest version:
+	 * the unique version number rejects all but one new version, and the template is only updated
+	 * if its published version is still the one this change was based on. A change that loses
+	 * either race is retried on the template as it now is.
+	 *
+	 * @param id - Template ID
+	 * @param data - Fields to change
+	 * @param env - Environment with DB binding
+	 * @throws ConflictError if concurrent changes kept winning
+	 */
+	static async updateTemplate(id: number, data: TemplateUpdate, env: Env): Promise<TemplateWithProject> {
+		const prisma = getPrismaClient(env);
+		const stored = toData(data);
+
+		for (let attempt = 0; attempt < TEMPLATE_CONFIG.MAX_UPDATE_ATTEMPTS; attempt++) {
+			const current = await prisma.template.findUniqueOrThrow({ where: { id } });
+			const content = {
+				subject: stored.subject ?? current.subject,
+				bodyHtml: stored.bodyHtml ?? current.bodyHtml,
+				bodyText: stored.bodyText ?? current.bodyText,
+				variables: stored.variables ?? current.variables,
+			};
+
+			if (
+				content.subject === current.subject &&
+				content.bodyHtml === current.bodyHtml &&
+				content.bodyText === current.bodyText &&
+				content.variables === current.variables
+			) {
+				return prisma.template.update({
+					where: { id },
+					data: stored,
+					include: { project: { select: { key: true } } },
+				});
+			}
+
+			const latest = await prisma.templateVersion.aggregate({ where: { templateId: id }, _max: { version: true } });
+			let version: TemplateVersion;
+			try {
+				version = await prisma.templateVersion.create({
+					data: { templateId: id, version: (latest._max.version ?? 0) + 1, ...content },
+				});
+			} catch (error) {
+				if (isUniqueConstraintError(error)) {
+					continue;
+				}
+				throw error;
+			}
+
+			const { count } = await prisma.template.updateMany({
+				where: { id, publishedVersionId: current.publishedVersionId },
+				data: { ...stored, publishedVersionId: version.id },
+			});
+			if (count > 0) {
+				return prisma.template.findUniqueOrThrow({ where: { id }, include: { project: { select: { key: true } } } });
+			}
+
+			// Another change was published first; its version stands and this one was never published
+			await prisma.templateVersion.delete({ where: { id: version.id } }).catch((error) => {
+				console.error(`Error removing unpublished template version ${version.id}: ${error}`);
+			});
+		}
+
+		throw new ConflictError('Template was changed concurrently; try again');
+	}
+
+	/**
+	 * List the versions of a template, newest first
+	 *
+	 * @param template - Template, for its ID and published version
+	 * @param env - Environment with DB binding
+	 */
+	static async listVersions(template: Template, env: Env): Promise<TemplateVersionSummary[]> {
+		const prisma = getPrismaClient(env);
+
+		const versions = await prisma.templateVersion.findMany({
+			where: { templateId: template.id },
+			select: { id: true, version: true, createdAt: true },
+			orderBy: { version: 'desc' },
+		});
+
+		return versions.map((version) => ({ ...version, published: version.id === template.publishedVersionId }));
+	}
+
+	/**
+	 * Get a version of a template by its number
+	 *
+	 * @param templateId - Template ID
+	 * @param version - Version number
+	 * @param env - Environment with DB binding
+	 */
+	static async getVersion(templateId: number, version: number, env: Env): Promise<TemplateVersion | null> {
+		const prisma = getPrismaClient(env);
+		return prisma.templateVersion.findUnique({ where: { templateId_version: { templateId, version } } });
+	}
+
+	/**
+	 * Publish an existing version, copying its content to the template
+	 *
+	 * Used to roll back to an earlier version; messages pinned to other versions are unaffected.
+	 *
+	 * @param version - Version to publish
+	 * @param env - Environment with DB binding
+	 */
+	static async publishVersion(version: TemplateVersion, env: Env): Promise<TemplateWithProject> {
+		const prisma = getPrismaClient(env);
+		return prisma.template.update({
+			where: { id: version.templateId },
+			data: {
+				subject: version.subject,
+				bodyHtml: version.bodyHtml,
+				bodyText: version.bodyText,
+				variables: version.variables,
+				publishedVersionId: version.id,
+			},
+			include: { project: { select: { key: true } } },
+		});
+	}
+
+	/**
+	 * Delete a template that no message references, along with its opt-outs and versions
+	 *
+	 * D1 runs each statement on its own, so the template is deactivated first and the
+	 * rows that depend on it are deleted before it; if a statement fails, the template
+	 * is left inactive and deleting it again finishes the job.
+	 *
+	 * @param id - Template ID
+	 * @param env - Environment with DB binding
+	 * @returns false if messages still reference the template
+	 */
+	static async deleteTemplate(id: number, env: Env): Promise<boolean> {
+		const prisma = getPrismaClient(env);
+
+		if ((await prisma.message.count({ where: { templateId: id } })) > 0) {
+			return false;
+		}
+
+		await prisma.template.update({ where: { id }, data: { isActive: false, publishedVersionId: null } });
+		await prisma.templateOptOut.deleteMany({ where: { templateId: id } });
+		await prisma.templateVersion.deleteMany({ where: { templateId: id } });
+		await prisma.template.delete({ where: { id } });
+		return true;
+	}
+
+	/**
+	 * Format a template for API responses, with its provider order and variables parsed
+	 */
+	static formatTemplate(template: TemplateWithProject) {
+		const { project, providerOrder, variables, ...rest } = template;
+
+		let providers: unknown = null;
+		try {
+			providers = providerOrder ? JSON.parse(providerOrder) : null;
+		} catch {
+			console.error(`Invalid provider order for template ${template.key}: ${providerOrder}`);
+		}
+
+		return { ...rest, project: project.key, providerOrder: providers, variables: TemplateService.parseVariables(variables) };
+	}
+}
+
+export default TemplateAdminService;
@@ -0,0 +1,43 @@
+import { Hono } from 'hono';
+
+import TrackingService, { isTrackingConfigured } from './tracking-service';
+
+// Public routes: opened from recipients' mail clients, authenticated by the signed token
+const router = new Hono<{ Bindings: Env }>().basePath('/track');
+
+// Transparent 1x1 GIF
+const PIXEL = Uint8Array.from(atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'), (char) => char.charCodeAt(0));
+
+// Record an open and return the tracking pixel
+router.get('/open/:token', async (c) => {
+	// Always return the pixel, so broken images never show in the email
+	if (isTrackingConfigured(c.env)) {
+		const token = await TrackingService.verifyToken(c.req.param('token'), c.env.TRACKING_SECRET);
+		if (token && !token.url) {
+			c.executionCtx.waitUntil(TrackingService.recordEngagement(token.messageId, 'OPEN', { userAgent: c.req.header('User-Agent') }, c.env));
+		}
+	}
+
+	return c.body(PIXEL, 200, {
+		'Content-Type': 'image/gif',
+		'Cache-Control': 'no-store, max-age=0',
+	});
+});
+
+// Record a click and redirect to the original link
+router.get('/click/:token', async (c) => {
+	const token = isTrackingConfigured(c.env) ? await TrackingService.verifyToken(c.req.param('token'), c.env.TRACKING_SECRET) : null;
+
+	// Only signed links are followed, so the route cannot be used as an open redirect
+	if (!token?.url) {
+		return c.json({ success: false, code: 404, message: 'Link not found' }, { status: 404 });
+	}
+
+	c.executionCtx.waitUntil(
+		TrackingService.recordEngagement(token.messageId, 'CLICK', { url: token.url, userAgent: c.req.header('User-Agent') }, c.env),
+	);
+
+	return c.redirect(token.url, 302);
+});
+
+export { router };
@@ -0,0 +1,230 @@
+/**
+ * Tracking Service
+ *
+ * Opt-in open and click tracking: rewrites outgoing HTML to load a pixel and
+ * follow links through the tracking routes, using signed tokens that carry the
+ * message ID, and reports open and click rates per template.
+ */
+
+import type { EngagementType, MessageStatus, Prisma } from '@prisma/client';
+
+import { getPrismaClient } from '../lib/prisma-client';
+import { timingSafeEqual } from '../lib/utils';
+
+/**
+ * Contents of a tracking token
+ */
+export interface TrackingToken {
+	messageId: number;
+	url?: string; // Clicks only: the link to redirect to
+}
+
+/**
+ * Open and click rates for a template's tracked messages
+ */
+export interface TemplateEngagementStats {
+	templateKey: string;
+	sent: number;
+	opened: number;
+	clicked: number;
+	opens: number;
+	clicks: number;
+	openRate: number;
+	clickRate: number;
+}
+
+// Statuses of messages that were sent and did not bounce
+const SENT_STATUSES: MessageStatus[] = ['SENT', 'DELIVERED', 'DEFERRED', 'COMPLAINED'];
+
+// Links to absolute http(s) URLs in anchor tags
+const LINK_PATTERN = /(<a\b[^>]*?\shref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+}
+
+/**
+ * Check that tracking has a signing secret and a public URL to link to
+ *
+ * @param env - Environment with TRACKING_SECRET and TRACKING_BASE_URL
+ */
+export function isTrackingConfigured(env: Env): boolean {
+	return Boolean(env.TRACKING_SECRET && env.TRACKING_BASE_URL);
+}
+
+class TrackingService {
+	/**
+	 * Create a signed token: the base64url JSON payload and its HMAC-SHA256 signature
+	 *
+	 * @param token - Message ID and, for clicks, the link URL
+	 * @param secret - Signing secret
+	 */
+	static async createToken(token: TrackingToken, secret: string): Promise<string> {
+		const payload = toBase64Url(encoder.encode(JSON.stringify({ m: token.messageId, ...(token.url && { u: token.url }) })));
+		return `${payload}.${await sign(payload, secret)}`;
+	}
+
+	/**
+	 * Verify a signed token and read its contents
+	 *
+	 * @param value - Token from the tracking URL
+	 * @param secret - Signing secret
+	 * @returns The token contents, or null if the token is malformed or tampered with
+	 */
+	static async verifyToken(value: string, secret: string): Promise<TrackingToken | null> {
+		const [payload, signature, ...rest] = value.split('.');
+		if (!payload || !signature || rest.length > 0) {
+			return null;
+		}
+
+		if (!timingSafeEqual(signature, await sign(payload, secret))) {
+			return null;
+		}
+
+		try {
+			const { m, u } = JSON.parse(decoder.decode(fromBase64Url(payload)));
+			if (!Number.isInteger(m) || (u !== undefined && typeof u !== 'string')) {
+				return null;
+			}
+			return { messageId: m, ...(u && { url: u }) };
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Add a tracking pixel to an email's HTML and send its links through the click route
+	 *
+	 * @param html - Rendered HTML body
+	 * @param messageId - ID of the logged message the HTML is sent for
+	 * @param env - Environment with the tracking secret and base URL
+	 * @returns The tracked HTML, or the HTML unchanged if tracking is not configured
+	 */
+	static async applyTracking(html: string, messageId: number, env: Env): Promise<string> {
+		if (!html || !isTrackingConfigured(env)) {
+			return html;
+		}
+
+		const baseUrl = env.TRACKING_BASE_URL.replace(/\/+$/, '');
+		const links = [...html.matchAll(LINK_PATTERN)];
+
+		// Sign each distinct link once
+		const clickUrls = new Map<string, string>();
+		for (const [, , , href] of links) {
+			if (!clickUrls.has(href)) {
+				const token = await this.createToken({ messageId, url: href.replace(/&amp;/g, '&') }, env.TRACKING_SECRET);
+				clickUrls.set(href, `${baseUrl}/track/click/${token}`);
+			}
+		}
+		const tracked = html.replace(
+			LINK_PATTERN,
+			(_, prefix: string, quote: string, href: string) => `${prefix}${quote}${clickUrls.get(href)}${quote}`,
+		);
+
+		const openToken = await this.createToken({ messageId }, env.TRACKING_SECRET);
+		const pixel = `<img src="${baseUrl}/track/open/${openToken}" width="1" height="1" alt="" style="border:0;width:1px;height:1px" />`;
+
+		// Place the pixel at the end of the body, or the end of the document without one
+		const bodyEnd = tracked.search(/<\/body>/i);
+		return bodyEnd === -1 ? `${tracked}${pixel}` : `${tracked.slice(0, bodyEnd)}${pixel}${tracked.slice(bodyEnd)}`;
+	}
+
+	/**
+	 * Record an open or click against a message
+	 *
+	 * @param messageId - Message the token was issued for
+	 * @param type - OPEN or CLICK
+	 * @param details - Link followed (clicks) and the client's user agent
+	 * @param env - Environment with DB binding
+	 */
+	static async recordEngagement(
+		messageId: number,
+		type: EngagementType,
+		details: { url?: string; userAgent?: string },
+		env: Env,
+	): Promise<void> {
+		const prisma = getPrismaClient(env);
+
+		try {
+			await prisma.messageEngagement.create({
+				data: { messageId, type, url: details.url, userAgent: details.userAgent },
+			});
+		} catch (error) {
+			console.error(`Failed to record ${type.toLowerCase()} for message ${messageId}: ${error}`);
+		}
+	}
+
+	/**
+	 * Get open and click rates for a template's tracked messages
+	 *
+	 * A click counts as an open too, since clients that block images still follow links.
+	 *
+	 * @param key - Template key
+	 * @param range - Optional range of message creation dates
+	 * @param env - Environment with DB binding
+	 * @returns The template's stats, or null if the template does not exist
+	 */
+	static async getTemplateStats(
+		key: string,
+		range: { createdAfter?: Date; createdBefore?: Date },
+		env: Env,
+	): Promise<TemplateEngagementStats | null> {
+		const prisma = getPrismaClient(env);
+
+		const template = await prisma.template.findFirst({ where: { key }, select: { id: true } });
+		if (!template) {
+			return null;
+		}
+
+		const where: Prisma.MessageWhereInput = {
+			templateId: template.id,
+			tracked: true,
+			status: { in: SENT_STATUSES },
+			...((range.createdAfter || range.createdBefore) && {
+				createdAt: {
+					...(range.createdAfter && { gte: range.createdAfter }),
+					...(range.createdBefore && { lte: range.createdBefore }),
+				},
+			}),
+		};
+
+		const [sent, opened, clicked, opens, clicks] = await Promise.all([
+			prisma.message.count({ where }),
+			prisma.message.count({ where: { ...where, engagements: { some: {} } } }),
+			prisma.message.count({ where: { ...where, engagements: { some: { type: 'CLICK' } } } }),
+			prisma.messageEngagement.count({ where: { type: 'OPEN', message: where } }),
+			prisma.messageEngagement.count({ where: { type: 'CLICK', message: where } }),
+		]);
+
+		const rate = (count: number) => (sent > 0 ? Math.round((count / sent) * 10000) / 10000 : 0);
+
+		return {
+			templateKey: key,
+			sent,
+			opened,
+			clicked,
+			opens,
+			clicks,
+			openRate: rate(opened),
+			clickRate: rate(clicked),
+		};
+	}
+}
+
+export default TrackingService;
@@ -2,8 +2,8 @@
  * Core type definitions for Astra Messenger
  */
 
-// Email provider types
-export type EmailProvider = 'ses' | 'resend' | 'mailersend';
+// Email provider name, as registered in the provider registry
+export type EmailProvider = string;
 
 // Email response interface
 export interface EmailResponse {
@@ -15,6 +15,14 @@ export interface EmailResponse {
 		[key: string]: unknown;
 	};
 	retriable?: boolean;
+	retryAfter?: number; // Seconds the provider asked to wait before retrying
+	provider?: EmailProvider; // Provider that handled the final attempt
+	deferredUntil?: Date; // Set when every provider's circuit was open and nothing was sent
+}
+
+// Email response with the result of each recipient's send
+export interface EmailSendResponse extends EmailResponse {
+	recipients?: EmailResponse[]; // Result for each `to` recipient, in request order
 }
 
 // Provider response (internal to provider clients)
@@ -26,18 +34,60 @@ export interface ProviderResponse {
 		[key: string]: unknown;
 	};
 	retriable?: boolean;
+	retryAfter?: number; // Seconds the provider asked to wait before retrying (from Retry-After)
+}
+
+// Email attachment, inline when a content ID is set (referenced as cid:<contentId> in HTML)
+export interface EmailAttachment {
+	filename: string;
+	contentType: string;
+	content: string; // base64 encoded
+	contentId?: string;
+}
+
+// Template variable values: any JSON value, so templates can loop over lists and read nested fields
+export type TemplateValue = string | number | boolean | null | TemplateValue[] | { [key: string]: TemplateValue };
+export type TemplateVariables = Record<string, TemplateValue>;
+
+// Types a template can declare for its variables; dates are ISO 8601 strings or timestamps
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+
+// A variable declared by a template
+export interface TemplateVariableDeclaration {
+	name: string;
+	type: TemplateVariableType;
+	required?: boolean;
+	default?: TemplateValue; // Used when the variable is not given
+	description?: string;
 }
 
 // Email request interfaces
 export interface BaseEmailRequest {
 	to: string | string[];
 	from: string;
+	replyTo?: string;
+	cc?: string | string[];
+	bcc?: string | string[];
+	headers?: Record<string, string>;
+	attachments?: EmailAttachment[];
 	provider?: EmailProvider;
+	messageIds?: number[]; // Logged message ID of each `to` recipient, for per-message tracking and reply addresses
+	copyGroup?: string; // Copy group of the logged messages, when cc and bcc copies are shared between them
+	track?: boolean; // Open and click tracking
+}
+
+// Envelope fields stored with a message (the sender is stored separately)
+export interface MessageEnvelope {
+	replyTo?: string;
+	cc?: string[];
+	bcc?: string[];
+	headers?: Record<string, string>;
 }
 
 export interface TemplateEmailRequest extends BaseEmailRequest {
 	templateName: string;
-	templateVariables: Record<string, string | number | boolean>;
+	templateVariables: TemplateVariables;
+	templateVersionId?: number; // Template version to render, the published one if not set
 }
 
 export interface DirectEmailRequest extends BaseEmailRequest {
@@ -77,25 +127,88 @@ export interface MessageLogUpdateData {
 	provider?: string;
 }
 
+// Filters for listing logged messages
+export interface MessageListFilters {
+	status?: string[];
+	templateKey?: string;
+	recipient?: string;
+	provider?: string;
+	createdAfter?: Date;
+	createdBefore?: Date;
+	cursor?: number;
+	limit: number;
+}
+
+// API request body for changing a message before it is sent
+export interface MessageUpdateRequestBody {
+	sendAt?: string;
+	templateVariables?: TemplateVariables;
+}
+
 // API request body for sending emails
 export interface SendEmailRequestBody {
 	to: string | string[];
 	from: string;
+	replyTo?: string;
+	cc?: string | string[];
+	bcc?: string | string[];
+	headers?: Record<string, string>;
 	subject?: string;
 	body?: string;
 	html?: string;
 	templateName?: string;
-	templateVariables?: Record<string, string | number | boolean>;
+	templateVariables?: TemplateVariables;
+	attachments?: EmailAttachment[];
 	provider?: EmailProvider;
 	sendAt?: string;
+	track?: boolean; // Opt in to open and click tracking
+	templateVersion?: number | 'latest'; // Version to render; defaults to the one published when the request is made
+}
+
+// A single entry in a batch send request
+export interface BatchEmailEntry {
+	to: string | string[];
+	templateVariables: TemplateVariables;
+	sendAt?: string;
+}
+
+// API request body for sending a template to many recipients
+export interface BatchEmailRequestBody {
+	from: string;
+	replyTo?: string;
+	templateName: string;
+	provider?: EmailProvider;
+	track?: boolean;
+	templateVersion?: number | 'latest';
+	entries: BatchEmailEntry[];
+}
+
+// Per-entry result of a batch send request
+export interface BatchEmailEntryResult {
+	index: number;
+	success: boolean;
+	code: number;
+	message: string;
+	messageIds: number[];
+	data?: Record<string, unknown>; // Details of a failed entry, such as its variable validation result
 }
 
 // Email sending parameters (processed and ready to send)
 export interface EmailSendParams {
 	to: string[];
 	from: string;
+	replyTo?: string;
+	cc?: string[];
+	bcc?: string[];
+	headers?: Record<string, string>;
 	subject: string;
 	text: string;
 	html: string;
+	attachments?: EmailAttachment[];
 	provider: EmailProvider;
+	failoverProviders?: EmailProvider[];
+	templateName?: string; // Template the content was rendered from, if any
+	messageIds?: number[];
+	copyGroup?: string;
+	track?: boolean;
 }
@@ -0,0 +1,103 @@
+/**
+ * Delivery Event Service
+ *
+ * Records delivery events from provider webhooks, moves the matching messages
+ * into their delivery state and suppresses hard-bounced or complaining addresses.
+ */
+
+import type { DeliveryEventType, MessageStatus } from '@prisma/client';
+
+import { getPrismaClient } from '../lib/prisma-client';
+import { isSameAddress } from '../lib/utils';
+import SuppressionService from '../suppression/suppression-service';
+import type { DeliveryEventInput } from './delivery-events';
+
+// Statuses a message must be in for an event to move it into the event's state,
+// so late or out of order events (e.g. a delay after delivery) never move it back
+const ALLOWED_TRANSITIONS: Record<DeliveryEventType, MessageStatus[]> = {
+	DEFERRED: ['SENT', 'DEFERRED'],
+	DELIVERED: ['SENT', 'DEFERRED'],
+	BOUNCED: ['SENT', 'DEFERRED', 'DELIVERED'],
+	COMPLAINED: ['SENT', 'DEFERRED', 'DELIVERED'],
+};
+
+class DeliveryEventService {
+	/**
+	 * Record delivery events and update the status of their messages
+	 *
+	 * Events are stored even when no message matches, e.g. for mail sent before
+	 * external IDs were logged.
+	 *
+	 * @param events - Parsed delivery events
+	 * @param env - Environment with DB binding
+	 * @param options - suppress: false keeps unauthenticated reports off the suppression list
+	 * @returns Number of events that matched a message
+	 */
+	static async recordEvents(events: DeliveryEventInput[], env: Env, options: { suppress?: boolean } = {}): Promise<number> {
+		const { suppress = true } = options;
+		const prisma = getPrismaClient(env);
+		let matched = 0;
+
+		for (const event of events) {
+			const message = await prisma.message.findFirst({
+				where: event.messageId ? { id: event.messageId } : { externalId: event.externalId, provider: event.provider },
+				select: { id: true, contact: { select: { emailAddress: true } } },
+			});
+
+			await prisma.deliveryEvent.create({
+				data: {
+					messageId: message?.id,
+					provider: event.provider,
+					type: event.type,
+					externalId: event.externalId,
+					recipient: event.recipient,
+					permanent: event.permanent,
+					detail: event.detail,
+					occurredAt: event.occurredAt,
+				},
+			});
+
+			if (suppress) {
+				await this.suppressRecipient(event, env);
+			}
+
+			if (!message) {
+				console.warn(`No message found for ${event.provider} ${event.type} event: ${event.externalId}`);
+				continue;
+			}
+
+			matched++;
+
+			// Cc and bcc copies share their message's external ID; their events are kept
+			// but only the message's own recipient moves its status
+			if (event.recipient && !isSameAddress(event.recipient, message.contact.emailAddress)) {
+				continue;
+			}
+
+			await prisma.message.updateMany({
+				where: { id: message.id, status: { in: ALLOWED_TRANSITIONS[event.type] } },
+				data: {
+					status: event.type,
+					...(event.type !== 'DELIVERED' && event.detail && { errorDetails: event.detail }),
+				},
+			});
+		}
+
+		return matched;
+	}
+
+	/**
+	 * Add hard-bounced and complaining recipients to the suppression list
+	 */
+	private static async suppressRecipient(event: DeliveryEventInput, env: Env): Promise<void> {
+		const reason = event.type === 'COMPLAINED' ? 'COMPLAINT' : event.type === 'BOUNCED' && event.permanent ? 'HARD_BOUNCE' : null;
+		if (!reason || !event.recipient) {
+			return;
+		}
+
+		await SuppressionService.addSuppression(event.recipient, reason, { detail: event.detail, source: event.provider }, env);
+		console.info(`Suppressed ${event.recipient} after ${reason.toLowerCase().replace('_', ' ')} reported by ${event.provider}`);
+	}
+}
+
+export default DeliveryEventService;
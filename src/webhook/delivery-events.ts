@@ -0,0 +1,201 @@
+/**
+ * Delivery Event Parsers
+ *
+ * Turns provider webhook payloads into delivery events, one per recipient.
+ */
+
+import type { DeliveryEventType } from '@prisma/client';
+
+import type { EmailProvider } from '../types';
+
+/**
+ * A delivery event reported by a provider
+ */
+export interface DeliveryEventInput {
+	messageId?: number; // Set when the message is already known, instead of matching by external ID
+	provider: EmailProvider;
+	type: DeliveryEventType;
+	externalId: string;
+	recipient?: string;
+	permanent?: boolean; // Bounces only: hard (true) or soft (false)
+	detail?: string;
+	occurredAt: Date;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Narrow a parsed JSON value to an object, using an empty object for anything else
+ */
+function asObject(value: unknown): JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonObject) : {};
+}
+
+/**
+ * Narrow a parsed JSON value to a string
+ */
+function asString(value: unknown): string | undefined {
+	return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Narrow a parsed JSON value to an array, using an empty array for anything else
+ */
+function asArray(value: unknown): unknown[] {
+	return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Parse a date, falling back to now when missing or invalid
+ */
+function toDate(value: unknown): Date {
+	const date = typeof value === 'string' ? new Date(value) : new Date();
+	return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Join the defined parts of a detail message
+ */
+function toDetail(...parts: (string | undefined)[]): string | undefined {
+	return parts.filter(Boolean).join(': ') || undefined;
+}
+
+/**
+ * Parse an SES notification (the parsed Message of an SNS notification)
+ *
+ * Handles both identity notifications (notificationType) and configuration
+ * set event publishing (eventType).
+ */
+export function parseSesNotification(message: unknown): DeliveryEventInput[] {
+	const notification = asObject(message);
+	const externalId = asString(asObject(notification.mail).messageId);
+	if (!externalId) {
+		return [];
+	}
+
+	const event = { provider: 'ses', externalId };
+
+	switch (notification.eventType ?? notification.notificationType) {
+		case 'Delivery': {
+			const { recipients, timestamp } = asObject(notification.delivery);
+			return asArray(recipients)
+				.map(asString)
+				.filter((recipient) => recipient !== undefined)
+				.map((recipient) => ({ ...event, type: 'DELIVERED', recipient, occurredAt: toDate(timestamp) }));
+		}
+
+		case 'Bounce': {
+			const { bouncedRecipients, bounceType, bounceSubType, timestamp } = asObject(notification.bounce);
+			return asArray(bouncedRecipients).map((value) => {
+				const recipient = asObject(value);
+				return {
+					...event,
+					type: 'BOUNCED',
+					recipient: asString(recipient.emailAddress),
+					permanent: bounceType === 'Permanent',
+					detail: toDetail(`${asString(bounceType)}/${asString(bounceSubType)}`, asString(recipient.diagnosticCode)),
+					occurredAt: toDate(timestamp),
+				};
+			});
+		}
+
+		case 'Complaint': {
+			const { complainedRecipients, complaintFeedbackType, timestamp } = asObject(notification.complaint);
+			return asArray(complainedRecipients).map((value) => ({
+				...event,
+				type: 'COMPLAINED',
+				recipient: asString(asObject(value).emailAddress),
+				detail: asString(complaintFeedbackType),
+				occurredAt: toDate(timestamp),
+			}));
+		}
+
+		case 'DeliveryDelay': {
+			const { delayedRecipients, delayType, timestamp } = asObject(notification.deliveryDelay);
+			return asArray(delayedRecipients).map((value) => {
+				const recipient = asObject(value);
+				return {
+					...event,
+					type: 'DEFERRED',
+					recipient: asString(recipient.emailAddress),
+					detail: toDetail(asString(delayType), asString(recipient.diagnosticCode)),
+					occurredAt: toDate(timestamp),
+				};
+			});
+		}
+
+		default:
+			return [];
+	}
+}
+
+// Resend event types and the delivery event each maps to
+const RESEND_EVENT_TYPES: Record<string, DeliveryEventType> = {
+	'email.delivered': 'DELIVERED',
+	'email.bounced': 'BOUNCED',
+	'email.complained': 'COMPLAINED',
+	'email.delivery_delayed': 'DEFERRED',
+};
+
+/**
+ * Parse a Resend webhook event
+ */
+export function parseResendEvent(payload: unknown): DeliveryEventInput[] {
+	const event = asObject(payload);
+	const data = asObject(event.data);
+	const type = RESEND_EVENT_TYPES[asString(event.type) ?? ''];
+	const externalId = asString(data.email_id);
+	if (!type || !externalId) {
+		return [];
+	}
+
+	const bounce = asObject(data.bounce);
+	const bounceType = asString(bounce.type);
+	return (Array.isArray(data.to) ? data.to : [data.to])
+		.map(asString)
+		.filter((recipient) => recipient !== undefined)
+		.map((recipient) => ({
+			provider: 'resend',
+			type,
+			externalId,
+			recipient,
+			...(type === 'BOUNCED' && {
+				permanent: bounceType !== 'Transient',
+				detail: toDetail(bounceType && `${bounceType}/${asString(bounce.subType)}`, asString(bounce.message)),
+			}),
+			occurredAt: toDate(event.created_at),
+		}));
+}
+
+// MailerSend activity types and the delivery event each maps to
+const MAILERSEND_EVENT_TYPES: Record<string, { type: DeliveryEventType; permanent?: boolean }> = {
+	'activity.delivered': { type: 'DELIVERED' },
+	'activity.soft_bounced': { type: 'BOUNCED', permanent: false },
+	'activity.hard_bounced': { type: 'BOUNCED', permanent: true },
+	'activity.spam_complaint': { type: 'COMPLAINED' },
+};
+
+/**
+ * Parse a MailerSend activity webhook event
+ */
+export function parseMailerSendEvent(payload: unknown): DeliveryEventInput[] {
+	const event = asObject(payload);
+	const data = asObject(event.data);
+	const email = asObject(data.email);
+	const mapping = MAILERSEND_EVENT_TYPES[asString(event.type) ?? ''];
+	const externalId = asString(asObject(email.message).id);
+	if (!mapping || !externalId) {
+		return [];
+	}
+
+	return [
+		{
+			provider: 'mailersend',
+			...mapping,
+			externalId,
+			recipient: asString(asObject(email.recipient).email),
+			detail: asString(asObject(data.morph).reason),
+			occurredAt: toDate(event.created_at),
+		},
+	];
+}
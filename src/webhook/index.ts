@@ -0,0 +1,122 @@
+import { Hono } from 'hono';
+
+import { providerFetch } from '../lib/provider-transport';
+import DeliveryEventService from './delivery-event-service';
+import type { DeliveryEventInput } from './delivery-events';
+import { parseMailerSendEvent, parseResendEvent, parseSesNotification } from './delivery-events';
+import { isSnsMessage, verifyMailerSendSignature, verifySnsSignature, verifySvixSignature } from './signatures';
+
+// Public routes: requests are authenticated by their provider signature, not the API key
+const router = new Hono<{ Bindings: Env }>().basePath('/webhooks');
+
+/**
+ * Parse a JSON body, returning undefined if it is not valid JSON
+ */
+function parseJson(body: string): unknown {
+	try {
+		return JSON.parse(body);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Record parsed events and build the webhook response
+ */
+async function recordEvents(events: DeliveryEventInput[], env: Env) {
+	const matched = await DeliveryEventService.recordEvents(events, env);
+
+	return {
+		success: true,
+		code: 200,
+		message: `Recorded ${events.length} delivery events`,
+		data: { received: events.length, matched },
+	};
+}
+
+// Amazon SES notifications delivered through SNS
+router.post('/ses', async (c) => {
+	// Any AWS account can sign SNS messages, so only the configured topic is trusted
+	const topicArn = c.env.SES_SNS_TOPIC_ARN;
+	if (!topicArn) {
+		console.error('SES SNS topic ARN not configured');
+		return c.json({ success: false, code: 500, message: 'Webhook not configured' }, { status: 500 });
+	}
+
+	const message = parseJson(await c.req.text());
+
+	if (!isSnsMessage(message)) {
+		return c.json({ success: false, code: 400, message: 'Invalid SNS message' }, { status: 400 });
+	}
+
+	// Checked before the signature so certificates are only fetched for our own topic
+	if (message.TopicArn !== topicArn) {
+		return c.json({ success: false, code: 403, message: `Unexpected topic: ${message.TopicArn}` }, { status: 403 });
+	}
+
+	if (!(await verifySnsSignature(message))) {
+		return c.json({ success: false, code: 401, message: 'Invalid signature' }, { status: 401 });
+	}
+
+	if (message.Type === 'SubscriptionConfirmation' && message.SubscribeURL) {
+		await providerFetch('AWS SNS', message.SubscribeURL, { method: 'GET' });
+		console.info(`Confirmed SNS subscription to ${message.TopicArn}`);
+		return c.json({ success: true, code: 200, message: 'Subscription confirmed' }, { status: 200 });
+	}
+
+	if (message.Type !== 'Notification') {
+		return c.json({ success: true, code: 200, message: `Ignored ${message.Type}` }, { status: 200 });
+	}
+
+	const events = parseSesNotification(parseJson(message.Message));
+	return c.json(await recordEvents(events, c.env), { status: 200 });
+});
+
+// Resend events, signed with Svix
+router.post('/resend', async (c) => {
+	const secret = c.env.RESEND_WEBHOOK_SECRET;
+	if (!secret) {
+		console.error('Resend webhook secret not configured');
+		return c.json({ success: false, code: 500, message: 'Webhook not configured' }, { status: 500 });
+	}
+
+	const body = await c.req.text();
+	const verified = await verifySvixSignature(
+		body,
+		{ id: c.req.header('svix-id'), timestamp: c.req.header('svix-timestamp'), signature: c.req.header('svix-signature') },
+		secret,
+	);
+	if (!verified) {
+		return c.json({ success: false, code: 401, message: 'Invalid signature' }, { status: 401 });
+	}
+
+	const payload = parseJson(body);
+	if (!payload) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	return c.json(await recordEvents(parseResendEvent(payload), c.env), { status: 200 });
+});
+
+// MailerSend activity events, signed with the webhook secret
+router.post('/mailersend', async (c) => {
+	const secret = c.env.MAILERSEND_WEBHOOK_SECRET;
+	if (!secret) {
+		console.error('MailerSend webhook secret not configured');
+		return c.json({ success: false, code: 500, message: 'Webhook not configured' }, { status: 500 });
+	}
+
+	const body = await c.req.text();
+	if (!(await verifyMailerSendSignature(body, c.req.header('Signature'), secret))) {
+		return c.json({ success: false, code: 401, message: 'Invalid signature' }, { status: 401 });
+	}
+
+	const payload = parseJson(body);
+	if (!payload) {
+		return c.json({ success: false, code: 400, message: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	return c.json(await recordEvents(parseMailerSendEvent(payload), c.env), { status: 200 });
+});
+
+export { router };
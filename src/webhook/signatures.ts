@@ -0,0 +1,266 @@
+/**
+ * Webhook Signature Verification
+ *
+ * Verifies that delivery webhooks really come from the provider: SNS message
+ * signatures (SES), Svix signatures (Resend) and MailerSend HMAC signatures.
+ */
+
+import { WEBHOOK_CONFIG } from '../config';
+import { providerFetch } from '../lib/provider-transport';
+import { timingSafeEqual } from '../lib/utils';
+
+/**
+ * SNS message envelope (notifications and subscription messages)
+ */
+export interface SnsMessage {
+	Type: string;
+	MessageId: string;
+	TopicArn: string;
+	Subject?: string;
+	Message: string;
+	Timestamp: string;
+	SignatureVersion: string;
+	Signature: string;
+	SigningCertURL: string;
+	SubscribeURL?: string;
+	Token?: string;
+}
+
+/**
+ * Check that a parsed request body has the shape of an SNS message
+ *
+ * @param value - Parsed JSON body
+ * @returns true if every field is a string and the required ones are present
+ */
+export function isSnsMessage(value: unknown): value is SnsMessage {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+
+	const message = value as Record<string, unknown>;
+	const required = ['Type', 'MessageId', 'TopicArn', 'Message', 'Timestamp', 'SignatureVersion', 'Signature', 'SigningCertURL'];
+	const optional = ['Subject', 'SubscribeURL', 'Token'];
+
+	return (
+		required.every((field) => typeof message[field] === 'string') &&
+		optional.every((field) => message[field] === undefined || typeof message[field] === 'string')
+	);
+}
+
+/**
+ * Loads the PEM certificate an SNS message was signed with
+ */
+export type CertificateLoader = (url: string) => Promise<string>;
+
+// Fields included in the SNS string to sign, in order, by message type
+const SNS_SIGNED_FIELDS: Record<string, (keyof SnsMessage)[]> = {
+	Notification: ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'],
+	SubscriptionConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+	UnsubscribeConfirmation: ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'],
+};
+
+const encoder = new TextEncoder();
+
+function base64ToBytes(value: string): Uint8Array {
+	return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+	return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacSha256(key: Uint8Array, message: string): Promise<Uint8Array> {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+/**
+ * Check that a signature timestamp (seconds) is within the allowed tolerance
+ */
+function isFreshTimestamp(timestamp: string, now: number): boolean {
+	const seconds = Number(timestamp);
+	return Number.isInteger(seconds) && Math.abs(now / 1000 - seconds) <= WEBHOOK_CONFIG.SIGNATURE_TOLERANCE_SECONDS;
+}
+
+/**
+ * Verify a Svix webhook signature (used by Resend)
+ *
+ * @param body - Raw request body
+ * @param headers - Values of the svix-id, svix-timestamp and svix-signature headers
+ * @param secret - Signing secret, with or without the whsec_ prefix
+ * @param now - Current time in milliseconds
+ * @returns true if one of the signatures matches and the timestamp is recent
+ */
+export async function verifySvixSignature(
+	body: string,
+	headers: { id?: string; timestamp?: string; signature?: string },
+	secret: string,
+	now: number = Date.now(),
+): Promise<boolean> {
+	const { id, timestamp, signature } = headers;
+	if (!id || !timestamp || !signature || !isFreshTimestamp(timestamp, now)) {
+		return false;
+	}
+
+	let key: Uint8Array;
+	try {
+		key = base64ToBytes(secret.startsWith('whsec_') ? secret.slice('whsec_'.length) : secret);
+	} catch {
+		console.error('Svix signing secret is not valid base64');
+		return false;
+	}
+
+	const expected = bytesToBase64(await hmacSha256(key, `${id}.${timestamp}.${body}`));
+
+	// The header holds space separated "version,signature" pairs
+	return signature.split(' ').some((entry) => {
+		const [version, value] = entry.split(',');
+		return version === 'v1' && value !== undefined && timingSafeEqual(value, expected);
+	});
+}
+
+/**
+ * Verify a MailerSend webhook signature
+ *
+ * @param body - Raw request body
+ * @param signature - Value of the Signature header (hex HMAC-SHA256 of the body)
+ * @param secret - Webhook signing secret
+ * @returns true if the signature matches
+ */
+export async function verifyMailerSendSignature(body: string, signature: string | undefined, secret: string): Promise<boolean> {
+	if (!signature) {
+		return false;
+	}
+
+	const expected = bytesToHex(await hmacSha256(encoder.encode(secret), body));
+	return timingSafeEqual(signature.toLowerCase(), expected);
+}
+
+/**
+ * Build the string an SNS message signature covers
+ *
+ * @param message - The SNS message
+ * @returns The string to sign, or null for unknown message types
+ */
+export function getSnsStringToSign(message: SnsMessage): string | null {
+	const fields = SNS_SIGNED_FIELDS[message.Type];
+	if (!fields) {
+		return null;
+	}
+
+	// Optional fields (Subject) are left out entirely when absent
+	return fields
+		.filter((field) => message[field] !== undefined)
+		.map((field) => `${field}\n${message[field]}\n`)
+		.join('');
+}
+
+/**
+ * Read one DER element header
+ */
+function readDerElement(der: Uint8Array, offset: number): { tag: number; start: number; contentStart: number; end: number } {
+	const tag = der[offset];
+	let length = der[offset + 1];
+	let contentStart = offset + 2;
+
+	// Long form: the low bits give the number of length bytes
+	if (length & 0x80) {
+		const lengthBytes = length & 0x7f;
+		length = 0;
+		for (let i = 0; i < lengthBytes; i++) {
+			length = length * 256 + der[contentStart++];
+		}
+	}
+
+	return { tag, start: offset, contentStart, end: contentStart + length };
+}
+
+/**
+ * Extract the SubjectPublicKeyInfo from a DER encoded X.509 certificate
+ */
+function extractPublicKeyInfo(der: Uint8Array): Uint8Array {
+	const certificate = readDerElement(der, 0);
+	const tbsCertificate = readDerElement(der, certificate.contentStart);
+
+	let offset = tbsCertificate.contentStart;
+	// Skip the explicit version tag if present
+	if (readDerElement(der, offset).tag === 0xa0) {
+		offset = readDerElement(der, offset).end;
+	}
+	// Skip serial number, signature algorithm, issuer, validity and subject
+	for (let i = 0; i < 5; i++) {
+		offset = readDerElement(der, offset).end;
+	}
+
+	const publicKeyInfo = readDerElement(der, offset);
+	return der.slice(publicKeyInfo.start, publicKeyInfo.end);
+}
+
+const certificateCache = new Map<string, string>();
+
+/**
+ * Download an SNS signing certificate, only from an SNS host over HTTPS
+ *
+ * @param url - SigningCertURL from the message
+ * @returns PEM certificate
+ */
+export async function fetchSnsCertificate(url: string): Promise<string> {
+	const cached = certificateCache.get(url);
+	if (cached) {
+		return cached;
+	}
+
+	const parsed = new URL(url);
+	if (parsed.protocol !== 'https:' || !WEBHOOK_CONFIG.SNS_CERT_HOST_PATTERN.test(parsed.hostname) || !parsed.pathname.endsWith('.pem')) {
+		throw new Error(`Untrusted SNS certificate URL: ${url}`);
+	}
+
+	const response = await providerFetch('AWS SNS', url, { method: 'GET' });
+	const pem = await response.text();
+	certificateCache.set(url, pem);
+	return pem;
+}
+
+/**
+ * Check that an SNS message timestamp (ISO 8601) is recent enough to accept
+ */
+function isFreshSnsTimestamp(timestamp: string, now: number): boolean {
+	const sentAt = Date.parse(timestamp);
+	return !isNaN(sentAt) && Math.abs(now - sentAt) / 1000 <= WEBHOOK_CONFIG.SNS_MAX_MESSAGE_AGE_SECONDS;
+}
+
+/**
+ * Verify the signature of an SNS message
+ *
+ * @param message - The SNS message
+ * @param loadCertificate - Loads the signing certificate (downloads it from SNS by default)
+ * @param now - Current time in milliseconds
+ * @returns true if the signature is valid and the message is recent
+ */
+export async function verifySnsSignature(
+	message: SnsMessage,
+	loadCertificate: CertificateLoader = fetchSnsCertificate,
+	now: number = Date.now(),
+): Promise<boolean> {
+	const stringToSign = getSnsStringToSign(message);
+	// Version 1 signs with SHA1, version 2 with SHA256
+	const hash = message.SignatureVersion === '1' ? 'SHA-1' : message.SignatureVersion === '2' ? 'SHA-256' : null;
+	if (!stringToSign || !hash || !message.Signature || !message.SigningCertURL || !isFreshSnsTimestamp(message.Timestamp, now)) {
+		return false;
+	}
+
+	try {
+		const pem = await loadCertificate(message.SigningCertURL);
+		const der = base64ToBytes(pem.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, ''));
+		const key = await crypto.subtle.importKey('spki', extractPublicKeyInfo(der), { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']);
+
+		return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, base64ToBytes(message.Signature), encoder.encode(stringToSign));
+	} catch (error) {
+		console.error(`SNS signature verification failed: ${error instanceof Error ? error.message : String(error)}`);
+		return false;
+	}
+}
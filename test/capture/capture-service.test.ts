@@ -0,0 +1,35 @@
+import type { CapturedEmail } from '@prisma/client';
+import { describe, expect, it } from 'vitest';
+
+import CaptureService from '../../src/capture/capture-service';
+
+const captured: CapturedEmail = {
+	id: 1,
+	messageId: 'captured-1@example.com',
+	sender: 'sender@example.com',
+	recipients: JSON.stringify(['jane@example.com']),
+	envelope: null,
+	subject: 'Hello',
+	bodyText: 'Hello',
+	bodyHtml: null,
+	attachments: null,
+	createdAt: new Date(),
+};
+
+describe('CaptureService.renderHtml', () => {
+	it('escapes the text body when there is no HTML body', () => {
+		const html = CaptureService.renderHtml({ ...captured, bodyText: `</pre><img src=x onerror="alert('x')"> & more` });
+
+		expect(html).toBe('<pre>&lt;/pre&gt;&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt; &amp; more</pre>');
+	});
+
+	it('resolves inline images to data URLs', () => {
+		const html = CaptureService.renderHtml({
+			...captured,
+			bodyHtml: '<img src="cid:logo">',
+			attachments: JSON.stringify([{ filename: 'logo.png', contentType: 'image/png', content: 'iVBORw0=', contentId: 'logo' }]),
+		});
+
+		expect(html).toBe('<img src="data:image/png;base64,iVBORw0=">');
+	});
+});
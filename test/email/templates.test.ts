@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import TemplateService, { type TemplateData } from '../../src/email/templates';
+
+const template: TemplateData = {
+	id: 1,
+	name: 'welcome',
+	subject: 'Welcome, {{ name }}',
+	htmlContent: '<p>Your plan: {{ plan }}</p>',
+	textContent: 'Your plan: {{ plan }}',
+	isActive: true,
+	versionId: 1,
+	variables: [
+		{ name: 'name', type: 'string', required: true },
+		{ name: 'plan', type: 'string', default: 'Free' },
+	],
+};
+
+describe('TemplateService.processTemplate', () => {
+	it('uses declared defaults for variables that were not given or are null', () => {
+		expect(TemplateService.processTemplate(template, { name: 'Jane' })).toEqual({
+			subject: 'Welcome, Jane',
+			html: '<p>Your plan: Free</p>',
+			text: 'Your plan: Free',
+		});
+		expect(TemplateService.processTemplate(template, { name: 'Jane', plan: null }).text).toBe('Your plan: Free');
+	});
+
+	it('prefers given values over declared defaults', () => {
+		expect(TemplateService.processTemplate(template, { name: 'Jane', plan: '<Pro>' })).toMatchObject({
+			html: '<p>Your plan: &lt;Pro&gt;</p>',
+			text: 'Your plan: <Pro>',
+		});
+	});
+
+	it('keeps line breaks in a value out of the subject', () => {
+		expect(TemplateService.processTemplate(template, { name: 'Jane\r\nBcc: victim@example.com' }).subject).toBe(
+			'Welcome, Jane Bcc: victim@example.com',
+		);
+	});
+});
+
+describe('TemplateService.validateVariables', () => {
+	it('does not require variables with a declared default', () => {
+		expect(TemplateService.validateVariables(template, {})).toEqual({ missing: ['name'], mistyped: [] });
+	});
+});
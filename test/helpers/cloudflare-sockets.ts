@@ -0,0 +1,34 @@
+/**
+ * cloudflare:sockets for Tests
+ *
+ * Implements connect() over Node TCP sockets, so the SMTP client can talk to a
+ * local fake server. Only plain connections are supported: the fake server does
+ * not speak TLS.
+ */
+
+import { createConnection } from 'node:net';
+import { Duplex } from 'node:stream';
+
+export function connect(address: { hostname: string; port: number }, options: { secureTransport?: string } = {}): Socket {
+	if (options.secureTransport === 'on') {
+		throw new Error('TLS is not supported by the test socket');
+	}
+
+	const connection = createConnection({ host: address.hostname, port: address.port });
+	const { readable, writable } = Duplex.toWeb(connection);
+	const closed = new Promise<void>((resolve) => connection.once('close', () => resolve()));
+
+	return {
+		readable: readable as ReadableStream,
+		writable: writable as WritableStream,
+		closed,
+		opened: new Promise((resolve) => connection.once('connect', () => resolve({}))),
+		async close() {
+			connection.destroy();
+			await closed;
+		},
+		startTls() {
+			throw new Error('STARTTLS is not supported by the test socket');
+		},
+	} as unknown as Socket;
+}
@@ -0,0 +1,134 @@
+/**
+ * Fake SMTP Server
+ *
+ * A minimal local SMTP server for testing the SMTP client. It records the
+ * commands and message data it receives and answers each command with the
+ * reply the test scripted, or a success reply by default.
+ */
+
+import { type AddressInfo, createServer, type Socket } from 'node:net';
+
+/**
+ * Returns the reply to a command, or undefined for the default reply
+ */
+export type SmtpReplyScript = (command: string) => string | undefined;
+
+export interface FakeSmtpServer {
+	port: number;
+	connections: number;
+	commands: string[];
+	messages: string[];
+	// Extensions advertised in the EHLO reply
+	extensions: string[];
+	greeting: string | null; // null never greets, to simulate a stalled server
+	reply(script: SmtpReplyScript): void;
+	close(): Promise<void>;
+}
+
+const defaultReply = (command: string): string => {
+	const verb = command.split(' ')[0].toUpperCase();
+	switch (verb) {
+		case 'AUTH':
+			return command.toUpperCase() === 'AUTH LOGIN' ? '334 VXNlcm5hbWU6' : '235 2.7.0 Authentication successful';
+		case 'DATA':
+			return '354 End data with <CR><LF>.<CR><LF>';
+		case 'QUIT':
+			return '221 2.0.0 Bye';
+		default:
+			return '250 2.0.0 OK';
+	}
+};
+
+/**
+ * Start a fake SMTP server on a free local port
+ */
+export async function startFakeSmtpServer(): Promise<FakeSmtpServer> {
+	const sockets = new Set<Socket>();
+	let script: SmtpReplyScript = () => undefined;
+
+	const state: FakeSmtpServer = {
+		port: 0,
+		connections: 0,
+		commands: [],
+		messages: [],
+		extensions: ['AUTH PLAIN LOGIN', '8BITMIME'],
+		greeting: '220 localhost ESMTP fake',
+		reply(next) {
+			script = next;
+		},
+		close() {
+			sockets.forEach((socket) => socket.destroy());
+			return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+		},
+	};
+
+	const server = createServer((socket) => {
+		state.connections++;
+		sockets.add(socket);
+		socket.on('close', () => sockets.delete(socket));
+
+		let buffer = '';
+		let data: string | null = null;
+		// AUTH LOGIN sends the username and password as two further lines
+		let loginLines = 0;
+
+		const send = (line: string) => socket.write(`${line}\r\n`);
+
+		socket.on('data', (chunk) => {
+			buffer += chunk.toString('utf8');
+			let index = buffer.indexOf('\r\n');
+			while (index !== -1) {
+				const line = buffer.slice(0, index);
+				buffer = buffer.slice(index + 2);
+				index = buffer.indexOf('\r\n');
+
+				if (data !== null) {
+					if (line === '.') {
+						state.messages.push(data);
+						data = null;
+						send(script('.') ?? '250 2.0.0 Ok: queued');
+					} else {
+						data += `${line}\r\n`;
+					}
+					continue;
+				}
+
+				state.commands.push(line);
+
+				if (loginLines > 0) {
+					loginLines--;
+					send(script(line) ?? (loginLines > 0 ? '334 UGFzc3dvcmQ6' : '235 2.7.0 Authentication successful'));
+					continue;
+				}
+
+				const verb = line.split(' ')[0].toUpperCase();
+				if (verb === 'EHLO') {
+					const lines = ['localhost', ...state.extensions];
+					const scripted = script(line);
+					socket.write(scripted ? `${scripted}\r\n` : lines.map((text, i) => `250${i < lines.length - 1 ? '-' : ' '}${text}\r\n`).join(''));
+					continue;
+				}
+
+				const reply = script(line) ?? defaultReply(line);
+				if (verb === 'AUTH' && line.toUpperCase() === 'AUTH LOGIN' && reply.startsWith('334')) {
+					loginLines = 2;
+				}
+				if (verb === 'DATA' && reply.startsWith('354')) {
+					data = '';
+				}
+				send(reply);
+				if (verb === 'QUIT') {
+					socket.end();
+				}
+			}
+		});
+
+		if (state.greeting !== null) {
+			send(state.greeting);
+		}
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	state.port = (server.address() as AddressInfo).port;
+	return state;
+}
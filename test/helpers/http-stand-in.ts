@@ -0,0 +1,79 @@
+/**
+ * Local HTTP Stand-in
+ *
+ * A throwaway HTTP server that provider clients can be pointed at through their
+ * base URL setting. It records every request and answers with whatever the test
+ * scripted, e.g. a provider's documented success or error response.
+ */
+
+import { createServer, type IncomingHttpHeaders, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+/**
+ * A request received by the stand-in
+ */
+export interface RecordedRequest {
+	method: string;
+	path: string;
+	headers: IncomingHttpHeaders;
+	body: Buffer;
+}
+
+/**
+ * Scripted answer to a request; a handler that never ends the response simulates a stalled provider
+ */
+export type StandInHandler = (request: RecordedRequest, response: ServerResponse) => void;
+
+export interface HttpStandIn {
+	baseUrl: string;
+	requests: RecordedRequest[];
+	respondWith(handler: StandInHandler): void;
+	close(): Promise<void>;
+}
+
+/**
+ * Reply with a JSON body
+ */
+export function json(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+	response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+	response.end(JSON.stringify(body));
+}
+
+/**
+ * Start a stand-in on a free local port
+ */
+export async function startHttpStandIn(): Promise<HttpStandIn> {
+	const requests: RecordedRequest[] = [];
+	let handler: StandInHandler = (_request, response) => json(response, 404, { message: 'No response scripted' });
+
+	const server = createServer((incoming, response) => {
+		const chunks: Buffer[] = [];
+		incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+		incoming.on('end', () => {
+			const request = {
+				method: incoming.method ?? 'GET',
+				path: incoming.url ?? '/',
+				headers: incoming.headers,
+				body: Buffer.concat(chunks),
+			};
+			requests.push(request);
+			handler(request, response);
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		baseUrl: `http://127.0.0.1:${port}`,
+		requests,
+		respondWith(next) {
+			handler = next;
+		},
+		close() {
+			// Drop stalled connections so the server can shut down
+			server.closeAllConnections();
+			return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+		},
+	};
+}
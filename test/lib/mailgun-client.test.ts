@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HTTP_CONFIG } from '../../src/config';
+import send from '../../src/lib/mailgun-client';
+import { type HttpStandIn, json, type RecordedRequest, startHttpStandIn } from '../helpers/http-stand-in';
+
+const params = {
+	to: ['jane@example.com', 'john@example.com'],
+	from: 'Sender <sender@example.com>',
+	replyTo: 'support@example.com',
+	headers: { 'List-Id': 'news.example.com' },
+	subject: 'Hello',
+	text: 'Hello there',
+	html: '<p>Hello there <img src="cid:logo"></p>',
+	attachments: [{ filename: 'logo.png', contentType: 'image/png', content: 'iVBORw0KGgo=', contentId: 'logo' }],
+};
+
+/**
+ * Parse the multipart form a request was sent with
+ */
+const readForm = (request: RecordedRequest) =>
+	new Request('http://stand-in', {
+		method: 'POST',
+		headers: { 'Content-Type': String(request.headers['content-type']) },
+		body: request.body,
+	}).formData();
+
+describe('Mailgun client', () => {
+	let standIn: HttpStandIn;
+	let env: Env;
+
+	beforeEach(async () => {
+		standIn = await startHttpStandIn();
+		env = { MAILGUN_API_KEY: 'key-1', MAILGUN_DOMAIN: 'mg.example.com', MAILGUN_API_BASE_URL: standIn.baseUrl } as Env;
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await standIn.close();
+	});
+
+	it('sends the message as form data and returns the Mailgun message ID', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 200, { id: '<20111114174239.25659.5817@samples.mailgun.org>', message: 'Queued. Thank you.' }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 201, retriable: false, data: { id: '<20111114174239.25659.5817@samples.mailgun.org>' } });
+
+		const [request] = standIn.requests;
+		expect(request.method).toBe('POST');
+		expect(request.path).toBe('/v3/mg.example.com/messages');
+		expect(request.headers.authorization).toBe(`Basic ${btoa('api:key-1')}`);
+
+		const form = await readForm(request);
+		expect(form.get('from')).toBe('Sender <sender@example.com>');
+		expect(form.getAll('to')).toEqual(['jane@example.com', 'john@example.com']);
+		expect(form.get('subject')).toBe('Hello');
+		expect(form.get('h:Reply-To')).toBe('support@example.com');
+		expect(form.get('h:List-Id')).toBe('news.example.com');
+		// Inline attachments are named by their content ID
+		expect((form.get('inline') as File).name).toBe('logo');
+	});
+
+	it('reports a rejected request with the Mailgun message as not retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 400, { message: "'from' parameter is not a valid address. please check documentation" }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({
+			code: 400,
+			retriable: false,
+			message: "Mailgun error: 'from' parameter is not a valid address. please check documentation",
+		});
+	});
+
+	it('reports an invalid API key with a plain text body as not retriable', async () => {
+		standIn.respondWith((_request, response) => {
+			response.writeHead(401, { 'Content-Type': 'text/plain' });
+			response.end('Forbidden');
+		});
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 401, retriable: false, message: 'Mailgun error: The API key is missing or invalid' });
+	});
+
+	it('reports a rate limit as retriable, keeping Retry-After', async () => {
+		standIn.respondWith((_request, response) => json(response, 429, { message: 'Too many requests' }, { 'Retry-After': '12' }));
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 429, retriable: true, retryAfter: 12 });
+	});
+
+	it('reports a server error as retriable', async () => {
+		standIn.respondWith((_request, response) => json(response, 502, { message: 'Bad gateway' }));
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 502, retriable: true });
+	});
+
+	it('reports a request that times out as retriable', async () => {
+		vi.spyOn(HTTP_CONFIG, 'DEFAULT_TIMEOUT', 'get').mockReturnValue(100);
+		standIn.respondWith(() => undefined);
+
+		const result = await send(params, env);
+
+		expect(result.retriable).toBe(true);
+		expect(result.message).toBe('Mailgun request timed out after 100ms');
+	});
+});
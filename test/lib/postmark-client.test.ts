@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HTTP_CONFIG } from '../../src/config';
+import send from '../../src/lib/postmark-client';
+import { type HttpStandIn, json, startHttpStandIn } from '../helpers/http-stand-in';
+
+const params = {
+	to: ['Jane Doe <jane@example.com>', 'john@example.com'],
+	from: 'Sender <sender@example.com>',
+	replyTo: 'support@example.com',
+	cc: ['cc@example.com'],
+	headers: { 'X-Entity-Ref-ID': 'ref-1' },
+	subject: 'Hello',
+	text: 'Hello there',
+	html: '<p>Hello there</p>',
+};
+
+describe('Postmark client', () => {
+	let standIn: HttpStandIn;
+	let env: Env;
+
+	beforeEach(async () => {
+		standIn = await startHttpStandIn();
+		env = { POSTMARK_SERVER_TOKEN: 'server-token', POSTMARK_API_BASE_URL: standIn.baseUrl } as Env;
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await standIn.close();
+	});
+
+	it('sends the message and returns the Postmark message ID', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 200, {
+				To: 'jane@example.com',
+				SubmittedAt: '2014-02-17T07:25:01.4178645-05:00',
+				MessageID: '0a129aee-e1cd-480d-b08d-4f48548ff48d',
+				ErrorCode: 0,
+				Message: 'OK',
+			}),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 201, retriable: false, data: { id: '0a129aee-e1cd-480d-b08d-4f48548ff48d' } });
+
+		const [request] = standIn.requests;
+		expect(request.method).toBe('POST');
+		expect(request.path).toBe('/email');
+		expect(request.headers['x-postmark-server-token']).toBe('server-token');
+		expect(JSON.parse(request.body.toString())).toEqual({
+			From: 'Sender <sender@example.com>',
+			To: 'Jane Doe <jane@example.com>, john@example.com',
+			Cc: 'cc@example.com',
+			ReplyTo: 'support@example.com',
+			Subject: 'Hello',
+			TextBody: 'Hello there',
+			HtmlBody: '<p>Hello there</p>',
+			MessageStream: 'outbound',
+			Headers: [{ Name: 'X-Entity-Ref-ID', Value: 'ref-1' }],
+		});
+	});
+
+	it('reports a rejected request with the Postmark error code as not retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 422, { ErrorCode: 406, Message: 'You tried to send to a recipient that has been marked as inactive.' }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result.code).toBe(422);
+		expect(result.retriable).toBe(false);
+		expect(result.message).toContain('marked as inactive. (error code 406)');
+	});
+
+	it('reports an invalid server token as not retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 401, {
+				ErrorCode: 10,
+				Message: 'The Server Token you provided in the X-Postmark-Server-Token request header was invalid.',
+			}),
+		);
+
+		const result = await send(params, env);
+
+		expect(result.code).toBe(401);
+		expect(result.retriable).toBe(false);
+		expect(result.message).toContain('error code 10');
+	});
+
+	it('reports a rate limit as retriable, keeping Retry-After', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 429, { ErrorCode: 429, Message: 'Rate limit exceeded' }, { 'Retry-After': '30' }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 429, retriable: true, retryAfter: 30 });
+	});
+
+	it('reports a server error as retriable', async () => {
+		standIn.respondWith((_request, response) => {
+			response.writeHead(503, { 'Content-Type': 'text/html' });
+			response.end('<html>Service Unavailable</html>');
+		});
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 503, retriable: true, message: 'Postmark error: Server error' });
+	});
+
+	it('reports a request that times out as retriable', async () => {
+		vi.spyOn(HTTP_CONFIG, 'DEFAULT_TIMEOUT', 'get').mockReturnValue(100);
+		standIn.respondWith(() => undefined);
+
+		const result = await send(params, env);
+
+		expect(result.retriable).toBe(true);
+		expect(result.message).toBe('Postmark request timed out after 100ms');
+	});
+
+	it('times out a response whose body stalls after the headers', async () => {
+		vi.spyOn(HTTP_CONFIG, 'DEFAULT_TIMEOUT', 'get').mockReturnValue(100);
+		standIn.respondWith((_request, response) => {
+			response.writeHead(200, { 'Content-Type': 'application/json' });
+			response.write('{"MessageID": ');
+		});
+
+		const result = await send(params, env);
+
+		expect(result.retriable).toBe(true);
+		expect(result.message).toBe('Postmark request timed out after 100ms');
+	});
+});
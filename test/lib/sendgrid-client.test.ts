@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { HTTP_CONFIG } from '../../src/config';
+import send from '../../src/lib/sendgrid-client';
+import { type HttpStandIn, json, startHttpStandIn } from '../helpers/http-stand-in';
+
+const params = {
+	to: 'Jane Doe <jane@example.com>',
+	from: 'Sender <sender@example.com>',
+	bcc: ['audit@example.com'],
+	subject: 'Hello',
+	text: 'Hello there',
+	html: '',
+	attachments: [{ filename: 'invoice.pdf', contentType: 'application/pdf', content: 'JVBERi0=' }],
+};
+
+describe('SendGrid client', () => {
+	let standIn: HttpStandIn;
+	let env: Env;
+
+	beforeEach(async () => {
+		standIn = await startHttpStandIn();
+		env = { SENDGRID_API_KEY: 'api-key', SENDGRID_API_BASE_URL: standIn.baseUrl } as Env;
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await standIn.close();
+	});
+
+	it('sends the message and returns the X-Message-Id header as the ID', async () => {
+		standIn.respondWith((_request, response) => {
+			response.writeHead(202, { 'X-Message-Id': 'W2jWqu7oSmSUIyLQfaaHkw' });
+			response.end();
+		});
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 201, retriable: false, data: { id: 'W2jWqu7oSmSUIyLQfaaHkw' } });
+
+		const [request] = standIn.requests;
+		expect(request.method).toBe('POST');
+		expect(request.path).toBe('/v3/mail/send');
+		expect(request.headers.authorization).toBe('Bearer api-key');
+		expect(JSON.parse(request.body.toString())).toEqual({
+			personalizations: [{ to: [{ name: 'Jane Doe', email: 'jane@example.com' }], bcc: [{ name: 'audit', email: 'audit@example.com' }] }],
+			from: { name: 'Sender', email: 'sender@example.com' },
+			subject: 'Hello',
+			// Empty HTML is left out, SendGrid rejects empty content
+			content: [{ type: 'text/plain', value: 'Hello there' }],
+			attachments: [{ filename: 'invoice.pdf', content: 'JVBERi0=', type: 'application/pdf', disposition: 'attachment' }],
+		});
+	});
+
+	it('reports validation errors with their messages as not retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 400, {
+				errors: [
+					{ message: 'The from object must be provided for every email send.', field: 'from', help: null },
+					{ message: 'The subject is required.', field: 'subject', help: null },
+				],
+			}),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({
+			code: 400,
+			retriable: false,
+			message: 'SendGrid error: The from object must be provided for every email send.; The subject is required.',
+		});
+	});
+
+	it('reports an invalid API key as not retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 401, {
+				errors: [{ message: 'The provided authorization grant is invalid, expired, or revoked', field: null, help: null }],
+			}),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 401, retriable: false });
+		expect(result.message).toContain('authorization grant is invalid');
+	});
+
+	it('reports a rate limit as retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 429, { errors: [{ message: 'too many requests', field: null, help: null }] }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 429, retriable: true });
+	});
+
+	it('reports a server error as retriable', async () => {
+		standIn.respondWith((_request, response) =>
+			json(response, 500, { errors: [{ message: 'Internal server error', field: null, help: null }] }),
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 500, retriable: true, message: 'SendGrid error: Internal server error' });
+	});
+
+	it('reports a request that times out as retriable', async () => {
+		vi.spyOn(HTTP_CONFIG, 'DEFAULT_TIMEOUT', 'get').mockReturnValue(100);
+		standIn.respondWith(() => undefined);
+
+		const result = await send(params, env);
+
+		expect(result.retriable).toBe(true);
+		expect(result.message).toBe('SendGrid request timed out after 100ms');
+	});
+});
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { SMTP_CONFIG } from '../../src/config';
+import send from '../../src/lib/smtp-client';
+import { type FakeSmtpServer, startFakeSmtpServer } from '../helpers/fake-smtp-server';
+
+const params = {
+	to: ['Jane Doe <jane@example.com>'],
+	from: 'Sender <sender@example.com>',
+	cc: ['cc@example.com'],
+	bcc: ['audit@example.com'],
+	subject: 'Hello',
+	text: 'Hello there',
+	html: '<p>Hello there</p>',
+};
+
+describe('SMTP client', () => {
+	let server: FakeSmtpServer;
+	let env: Env;
+
+	beforeEach(async () => {
+		server = await startFakeSmtpServer();
+		env = {
+			SMTP_HOST: '127.0.0.1',
+			SMTP_PORT: String(server.port),
+			SMTP_SECURITY: 'none',
+			SMTP_USERNAME: 'user',
+			SMTP_PASSWORD: 'secret',
+		} as Env;
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await server.close();
+	});
+
+	it('authenticates, sends to every recipient and writes a multipart/alternative message', async () => {
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 201, retriable: false });
+		expect(server.commands).toEqual([
+			'EHLO example.com',
+			`AUTH PLAIN ${Buffer.from('\0user\0secret').toString('base64')}`,
+			'MAIL FROM:<sender@example.com>',
+			'RCPT TO:<jane@example.com>',
+			'RCPT TO:<cc@example.com>',
+			'RCPT TO:<audit@example.com>',
+			'DATA',
+			'QUIT',
+		]);
+
+		const [message] = server.messages;
+		expect(message).toContain('From: Sender <sender@example.com>\r\n');
+		expect(message).toContain('To: Jane Doe <jane@example.com>\r\n');
+		expect(message).toContain('Cc: cc@example.com\r\n');
+		expect(message).not.toContain('audit@example.com');
+		expect(message).toContain(`Message-ID: <${result.data?.id}>`);
+		expect(message).toMatch(/Content-Type: multipart\/alternative; boundary="/);
+		expect(message).toContain('Content-Type: text/html; charset=UTF-8');
+	});
+
+	it('falls back to AUTH LOGIN when PLAIN is not offered', async () => {
+		server.extensions = ['AUTH LOGIN'];
+
+		const result = await send(params, env);
+
+		expect(result.code).toBe(201);
+		expect(server.commands.slice(1, 4)).toEqual(['AUTH LOGIN', btoa('user'), btoa('secret')]);
+	});
+
+	it('reports a permanent rejection of a recipient as not retriable', async () => {
+		server.reply((command) =>
+			command === 'RCPT TO:<cc@example.com>' ? '550 5.1.1 <cc@example.com>: Recipient address rejected' : undefined,
+		);
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 422, retriable: false });
+		expect(result.message).toContain('550 5.1.1');
+		expect(server.commands).not.toContain('DATA');
+	});
+
+	it('reports a transient failure as retriable', async () => {
+		server.reply((command) => (command.startsWith('MAIL FROM') ? '451 4.7.1 Try again later' : undefined));
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 503, retriable: true });
+	});
+
+	it('reports failed authentication as not retriable', async () => {
+		server.reply((command) => (command.startsWith('AUTH') ? '535 5.7.8 Authentication credentials invalid' : undefined));
+
+		const result = await send(params, env);
+
+		expect(result).toMatchObject({ code: 401, retriable: false });
+	});
+
+	it('refuses to send without STARTTLS when the server does not offer it', async () => {
+		const result = await send(params, { ...env, SMTP_SECURITY: 'starttls' });
+
+		expect(result).toMatchObject({ code: 502, retriable: false });
+		expect(server.commands).toEqual(['EHLO example.com']);
+	});
+
+	it('rejects addresses with line breaks before connecting', async () => {
+		const results = await Promise.all([
+			send({ ...params, to: ['jane@example.com>\r\nRCPT TO:<victim@example.com'] }, env),
+			send({ ...params, from: 'Sender\r\nBcc: victim@example.com <sender@example.com>' }, env),
+		]);
+
+		results.forEach((result) => expect(result).toMatchObject({ code: 400, retriable: false }));
+		expect(server.connections).toBe(0);
+	});
+
+	it('encodes attachment file names that cannot be quoted', async () => {
+		const attachments = [
+			{ filename: 'report "final".pdf', contentType: 'application/pdf', content: 'JVBERi0=' },
+			{ filename: 'résumé.pdf', contentType: 'application/pdf', content: 'JVBERi0=' },
+			{ filename: 'plain.pdf', contentType: 'application/pdf', content: 'JVBERi0=' },
+		];
+
+		const result = await send({ ...params, attachments }, env);
+
+		expect(result.code).toBe(201);
+		const [message] = server.messages;
+		expect(message).toContain(`Content-Disposition: attachment; filename*=UTF-8''report%20%22final%22.pdf`);
+		expect(message).toContain(`Content-Disposition: attachment; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`);
+		expect(message).toContain('Content-Disposition: attachment; filename="plain.pdf"');
+	});
+
+	it('reports a server that never answers as retriable', async () => {
+		vi.spyOn(SMTP_CONFIG, 'SESSION_TIMEOUT', 'get').mockReturnValue(100);
+		server.greeting = null;
+
+		const result = await send(params, env);
+
+		expect(result.retriable).toBe(true);
+		expect(result.message).toContain('SMTP session timeout');
+	});
+});
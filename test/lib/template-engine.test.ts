@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { TemplateError } from '../../src/errors';
+import { compileTemplate, getTemplateVariables, renderTemplate } from '../../src/lib/template-engine';
+import type { TemplateVariables } from '../../src/types';
+
+const render = (source: string, variables: TemplateVariables, html = false) => renderTemplate(compileTemplate(source), variables, { html });
+
+describe('template engine', () => {
+	it('escapes values in HTML bodies and writes them unchanged in text', () => {
+		const name = `<script>alert("x")</script> & 'friends'`;
+
+		expect(render('<p>Hi {{ name }}</p>', { name }, true)).toBe(
+			'<p>Hi &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;friends&#39;</p>',
+		);
+		expect(render('Hi {{ name }}', { name })).toBe(`Hi ${name}`);
+	});
+
+	it('escapes values after filters have run', () => {
+		expect(render('{{ name | default: "<none>" }}', {}, true)).toBe('&lt;none&gt;');
+	});
+
+	it("only reads the variables' own fields", () => {
+		const variables = { user: { name: 'Jane' } };
+
+		expect(render('{{ user.constructor }}|{{ user.toString }}|{{ user.__proto__ }}', variables)).toBe('||');
+		expect(render('{{#if user.constructor }}yes{{else}}no{{/if}}', variables)).toBe('no');
+		expect(render('{{ constructor.name }}{{ hasOwnProperty }}', { user: 'Jane' })).toBe('');
+		expect(render('{{#each list}}{{ constructor.name }}{{ length }}{{/each}}', { list: ['a', 'b'] })).toBe('');
+		expect(render('{{ @root.constructor }}', {})).toBe('');
+	});
+
+	it('reads a __proto__ field parsed from JSON as data, without touching prototypes', () => {
+		const variables = JSON.parse('{"__proto__": {"polluted": "yes"}}');
+
+		expect(render('{{ __proto__.polluted }}', variables)).toBe('yes');
+		expect(render('{{ polluted }}{{ user.polluted }}', { user: {} })).toBe('');
+	});
+
+	it('renders lists with each item as the context, its position and the root variables', () => {
+		const source =
+			'{{#each orders}}{{ @index }}:{{ id }}{{#each items}}[{{ this }}{{#if @last}}!{{/if}}]{{/each}}{{ @root.currency }}{{#if @first}}*{{/if}};{{/each}}';
+		const variables = {
+			currency: 'EUR',
+			orders: [
+				{ id: 'a', items: ['x', 'y'] },
+				{ id: 'b', items: [] },
+			],
+		};
+
+		expect(render(source, variables)).toBe('0:a[x][y!]EUR*;1:bEUR;');
+	});
+
+	it('renders the else branch of a block for an empty or missing value', () => {
+		const source = '{{#each items}}{{ this }}{{else}}none{{/each}} {{#if paid}}paid{{else}}due{{/if}}';
+
+		expect(render(source, { items: [], paid: false })).toBe('none due');
+		expect(render(source, { items: ['a'], paid: true })).toBe('a paid');
+	});
+
+	it('removes the lines of block tags that stand alone', () => {
+		const source = 'Items:\n{{#each items}}\n  - {{ this }}\n{{/each}}\nTotal: {{ total }}\n';
+
+		expect(render(source, { items: ['a', 'b'], total: 2 })).toBe('Items:\n  - a\n  - b\nTotal: 2\n');
+	});
+
+	it('formats values with filters', () => {
+		const source = '{{ name | upper }} {{ total | currency: "EUR" }} {{ due | date: "iso" }}';
+
+		expect(render(source, { name: 'Jane', total: 12.5, due: '2026-10-19T12:00:00Z' })).toBe('JANE €12.50 2026-10-19');
+	});
+
+	it.each([
+		['an unknown filter', '{{ name | shout }}', /Unknown filter "shout" at line 1/],
+		['a filter with bad arguments', '{{ due | date: "someday" }}', /Invalid filter date at line 1/],
+		['an unclosed tag', 'Hello\n{{ name', /Unclosed tag at line 2/],
+		['an unclosed block', '{{#if paid}}paid', /Unclosed \{\{#if\}\} block at line 1/],
+		['a mismatched block end', '{{#if paid}}paid{{/each}}', /Unexpected \{\{\/each\}\} at line 1/],
+		['an unknown block', '{{#with user}}{{/with}}', /Unknown block \{\{#with\}\}/],
+		['an invalid variable', '{{ user[0] }}', /Invalid variable "user\[0\]" at line 1/],
+	])('rejects %s', (_, source, message) => {
+		expect(() => compileTemplate(source)).toThrow(TemplateError);
+		expect(() => compileTemplate(source)).toThrow(message);
+	});
+
+	it('reports a value a filter cannot format', () => {
+		expect(() => render('{{ total | currency }}', { total: 'lots' })).toThrow(TemplateError);
+	});
+
+	it('lists top-level variables, but not the fields of list items', () => {
+		const templates = ['Hi {{ name }}', '{{#each items}}{{ title }}{{ @root.currency }}{{/each}}'].map(compileTemplate);
+
+		expect(getTemplateVariables(...templates)).toEqual(['name', 'items', 'currency']);
+	});
+});
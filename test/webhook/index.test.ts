@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { router } from '../../src/webhook';
+
+const notification = {
+	Type: 'Notification',
+	MessageId: '22b80b92-fdea-4c2c-8f9d-bdfb0c7bf324',
+	TopicArn: 'arn:aws:sns:us-west-2:999999999999:someone-else',
+	Message: JSON.stringify({ notificationType: 'Bounce', mail: { messageId: 'ses-1' } }),
+	Timestamp: new Date().toISOString(),
+	SignatureVersion: '2',
+	Signature: 'c2lnbmF0dXJl',
+	SigningCertURL: 'https://sns.us-west-2.amazonaws.com/SimpleNotificationService-test.pem',
+};
+
+const post = (body: unknown, env: Partial<Env>) =>
+	router.request('/webhooks/ses', { method: 'POST', body: JSON.stringify(body) }, env as Env);
+
+describe('SES webhook route', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('rejects every notification when no topic is configured', async () => {
+		const response = await post(notification, {});
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ message: 'Webhook not configured' });
+	});
+
+	it('rejects notifications from another topic before fetching any certificate', async () => {
+		const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+		const response = await post(notification, { SES_SNS_TOPIC_ARN: 'arn:aws:sns:us-west-2:123456789012:ses-events' });
+
+		expect(response.status).toBe(403);
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+});
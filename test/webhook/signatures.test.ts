@@ -0,0 +1,212 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { SnsMessage } from '../../src/webhook/signatures';
+import { getSnsStringToSign, verifyMailerSendSignature, verifySnsSignature, verifySvixSignature } from '../../src/webhook/signatures';
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64');
+
+const hmac = async (key: Uint8Array, message: string) => {
+	const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+};
+
+/**
+ * Encode a DER element with the given tag
+ */
+const der = (tag: number, ...contents: Uint8Array[]) => {
+	const body = Buffer.concat(contents);
+	const length =
+		body.length < 0x80 ? [body.length] : body.length < 0x100 ? [0x81, body.length] : [0x82, body.length >> 8, body.length & 0xff];
+	return new Uint8Array(Buffer.concat([Buffer.from([tag, ...length]), body]));
+};
+
+/**
+ * Wrap a public key in a minimal X.509 certificate structure, enough for the verifier to find the key
+ */
+const toCertificatePem = (publicKeyInfo: Uint8Array) => {
+	const empty = der(0x30);
+	const tbsCertificate = der(
+		0x30,
+		der(0xa0, der(0x02, Uint8Array.of(2))),
+		der(0x02, Uint8Array.of(1)),
+		empty,
+		empty,
+		empty,
+		empty,
+		publicKeyInfo,
+	);
+	const certificate = der(0x30, tbsCertificate, empty, der(0x03, Uint8Array.of(0)));
+	return `-----BEGIN CERTIFICATE-----\n${toBase64(certificate).replace(/.{64}/g, '$&\n')}\n-----END CERTIFICATE-----\n`;
+};
+
+describe('verifySvixSignature', () => {
+	const secretBytes = crypto.getRandomValues(new Uint8Array(24));
+	const secret = `whsec_${toBase64(secretBytes)}`;
+	const body = JSON.stringify({ type: 'email.delivered', data: { email_id: 'e-1' } });
+	const now = Date.UTC(2026, 9, 19, 12, 0, 0);
+	const timestamp = String(now / 1000);
+
+	const sign = async (payload: string) => toBase64(await hmac(secretBytes, `msg_1.${timestamp}.${payload}`));
+
+	it('accepts a valid signature among several', async () => {
+		const signature = `v1,bm90LXRoaXMtb25l v1,${await sign(body)}`;
+
+		expect(await verifySvixSignature(body, { id: 'msg_1', timestamp, signature }, secret, now)).toBe(true);
+	});
+
+	it('rejects a signature over a different body', async () => {
+		const signature = `v1,${await sign(body)}`;
+
+		expect(await verifySvixSignature(`${body} `, { id: 'msg_1', timestamp, signature }, secret, now)).toBe(false);
+	});
+
+	it('rejects a stale timestamp', async () => {
+		const signature = `v1,${await sign(body)}`;
+
+		expect(await verifySvixSignature(body, { id: 'msg_1', timestamp, signature }, secret, now + 301_000)).toBe(false);
+	});
+
+	it('rejects missing headers', async () => {
+		expect(await verifySvixSignature(body, { id: 'msg_1', timestamp }, secret, now)).toBe(false);
+	});
+
+	it('rejects instead of throwing when the secret is not base64', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+		const signature = `v1,${await sign(body)}`;
+
+		expect(await verifySvixSignature(body, { id: 'msg_1', timestamp, signature }, 'whsec_not*base64!', now)).toBe(false);
+		vi.restoreAllMocks();
+	});
+});
+
+describe('verifyMailerSendSignature', () => {
+	const secret = 'mailersend-signing-secret';
+	const body = JSON.stringify({ type: 'activity.delivered' });
+
+	it('accepts the hex HMAC of the body', async () => {
+		const signature = Buffer.from(await hmac(encoder.encode(secret), body)).toString('hex');
+
+		expect(await verifyMailerSendSignature(body, signature, secret)).toBe(true);
+		expect(await verifyMailerSendSignature(body, signature.toUpperCase(), secret)).toBe(true);
+	});
+
+	it('rejects a signature made with another secret', async () => {
+		const signature = Buffer.from(await hmac(encoder.encode('other-secret'), body)).toString('hex');
+
+		expect(await verifyMailerSendSignature(body, signature, secret)).toBe(false);
+	});
+
+	it('rejects a missing signature', async () => {
+		expect(await verifyMailerSendSignature(body, undefined, secret)).toBe(false);
+	});
+});
+
+describe('verifySnsSignature', () => {
+	const certUrl = 'https://sns.us-west-2.amazonaws.com/SimpleNotificationService-test.pem';
+	const now = Date.UTC(2026, 9, 19, 12, 0, 0);
+	let keys: CryptoKeyPair;
+	let certificate: string;
+
+	const generateKeys = (hash: string) =>
+		crypto.subtle.generateKey({ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: Uint8Array.of(1, 0, 1), hash }, true, [
+			'sign',
+			'verify',
+		]) as Promise<CryptoKeyPair>;
+
+	const signMessage = async (message: Omit<SnsMessage, 'Signature'>, privateKey: CryptoKey) => {
+		const stringToSign = getSnsStringToSign({ ...message, Signature: '' }) as string;
+		const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', privateKey, encoder.encode(stringToSign));
+		return { ...message, Signature: toBase64(new Uint8Array(signature)) };
+	};
+
+	const notification = (overrides: Partial<SnsMessage> = {}): Omit<SnsMessage, 'Signature'> => ({
+		Type: 'Notification',
+		MessageId: '22b80b92-fdea-4c2c-8f9d-bdfb0c7bf324',
+		TopicArn: 'arn:aws:sns:us-west-2:123456789012:ses-events',
+		Message: JSON.stringify({ notificationType: 'Delivery', mail: { messageId: 'ses-1' } }),
+		Timestamp: new Date(now).toISOString(),
+		SignatureVersion: '2',
+		SigningCertURL: certUrl,
+		...overrides,
+	});
+
+	const loadCertificate = async (url: string) => {
+		expect(url).toBe(certUrl);
+		return certificate;
+	};
+
+	beforeAll(async () => {
+		keys = await generateKeys('SHA-256');
+		certificate = toCertificatePem(new Uint8Array((await crypto.subtle.exportKey('spki', keys.publicKey)) as ArrayBuffer));
+	});
+
+	beforeEach(() => {
+		vi.spyOn(console, 'error').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('accepts a notification signed with the certificate key', async () => {
+		const message = await signMessage(notification(), keys.privateKey);
+
+		expect(await verifySnsSignature(message, loadCertificate, now)).toBe(true);
+	});
+
+	it('accepts a subscription confirmation, which signs the SubscribeURL and Token', async () => {
+		const message = await signMessage(
+			notification({
+				Type: 'SubscriptionConfirmation',
+				Message: 'You have chosen to subscribe to the topic.',
+				SubscribeURL: 'https://sns.us-west-2.amazonaws.com/?Action=ConfirmSubscription&Token=abc',
+				Token: 'abc',
+			}),
+			keys.privateKey,
+		);
+
+		expect(await verifySnsSignature(message, loadCertificate, now)).toBe(true);
+		expect(await verifySnsSignature({ ...message, SubscribeURL: 'https://attacker.example.com/' }, loadCertificate, now)).toBe(false);
+	});
+
+	it('accepts version 1 signatures made with SHA1', async () => {
+		const sha1Keys = await generateKeys('SHA-1');
+		certificate = toCertificatePem(new Uint8Array((await crypto.subtle.exportKey('spki', sha1Keys.publicKey)) as ArrayBuffer));
+		const message = await signMessage(notification({ SignatureVersion: '1' }), sha1Keys.privateKey);
+
+		expect(await verifySnsSignature(message, loadCertificate, now)).toBe(true);
+
+		certificate = toCertificatePem(new Uint8Array((await crypto.subtle.exportKey('spki', keys.publicKey)) as ArrayBuffer));
+	});
+
+	it('rejects a tampered message', async () => {
+		const message = await signMessage(notification(), keys.privateKey);
+		const tampered = { ...message, Message: JSON.stringify({ notificationType: 'Bounce', mail: { messageId: 'ses-1' } }) };
+
+		expect(await verifySnsSignature(tampered, loadCertificate, now)).toBe(false);
+	});
+
+	it('rejects a message signed with another key', async () => {
+		const otherKeys = await generateKeys('SHA-256');
+		const message = await signMessage(notification(), otherKeys.privateKey);
+
+		expect(await verifySnsSignature(message, loadCertificate, now)).toBe(false);
+	});
+
+	it('rejects a stale or invalid timestamp', async () => {
+		const stale = await signMessage(notification({ Timestamp: new Date(now - 2 * 3600 * 1000).toISOString() }), keys.privateKey);
+		const invalid = await signMessage(notification({ Timestamp: 'yesterday' }), keys.privateKey);
+
+		expect(await verifySnsSignature(stale, loadCertificate, now)).toBe(false);
+		expect(await verifySnsSignature(invalid, loadCertificate, now)).toBe(false);
+	});
+
+	it('rejects unknown signature versions and message types', async () => {
+		const version = await signMessage(notification({ SignatureVersion: '3' }), keys.privateKey);
+
+		expect(await verifySnsSignature(version, loadCertificate, now)).toBe(false);
+		expect(await verifySnsSignature({ ...version, SignatureVersion: '2', Type: 'Unknown' }, loadCertificate, now)).toBe(false);
+	});
+});
@@ -0,0 +1,12 @@
+import { fileURLToPath } from 'node:url';
+
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// Tests run in Node, where the Workers TCP socket API is provided over node:net
+			'cloudflare:sockets': fileURLToPath(new URL('./test/helpers/cloudflare-sockets.ts', import.meta.url)),
+		},
+	},
+});
@@ -4,8 +4,29 @@ interface Env {
 	AWS_REGION: string;
 	AWS_ACCESS_KEY_ID: string;
 	AWS_SECRET_ACCESS_KEY: string;
+	SES_SNS_TOPIC_ARN: string;
 	RESEND_API_KEY: string;
+	RESEND_WEBHOOK_SECRET: string;
 	MAILERSEND_API_KEY: string;
+	MAILERSEND_WEBHOOK_SECRET: string;
+	POSTMARK_SERVER_TOKEN: string;
+	POSTMARK_API_BASE_URL: string;
+	SENDGRID_API_KEY: string;
+	SENDGRID_API_BASE_URL: string;
+	MAILGUN_API_KEY: string;
+	MAILGUN_DOMAIN: string;
+	MAILGUN_API_BASE_URL: string;
+	SMTP_HOST: string;
+	SMTP_PORT: string;
+	SMTP_SECURITY: string;
+	SMTP_USERNAME: string;
+	SMTP_PASSWORD: string;
+	CAPTURE_EMAILS: string;
+	CAPTURE_ALL_EMAIL: string;
+	TRACKING_BASE_URL: string;
+	TRACKING_SECRET: string;
+	INBOUND_ADDRESS: string;
+	INBOUND_SECRET: string;
 	API_AUTH_TOKEN: string;
 	DB: D1Database;
 }